@@ -1,5 +1,5 @@
-import {shim} from 'promise.prototype.finally';
-shim();
+import {Clock, systemClock, TimerHandle} from './clock';
+import {TraceRecorder} from './trace_recorder';
 
 // Options to control throttling.
 export interface AsyncThrottleOptions {
@@ -7,33 +7,443 @@ export interface AsyncThrottleOptions {
   maxOutstanding?: number;
   // Throttle work by limiting the number of work items that can be started within a second (rolling window).
   maxQps?: number;
+  // Throttle work by limiting the number of work items that can be started within each of a set of rolling windows
+  // (e.g., 10 per second and 600 per minute). Work is started only when every window has room. May be combined with
+  // maxQps, which is equivalent to a limit with a window of 1000ms.
+  rateLimits?: RateLimit[];
+  // Throttle work using a token bucket instead of rolling windows. Cannot be combined with maxQps or rateLimits.
+  tokenBucket?: TokenBucketOptions;
+  // Adapt maxQps and/or maxOutstanding to the observed capacity of the upstream, based on the outcome of work.
+  adaptive?: AdaptiveOptions;
+  // Reads the limits reported by the upstream (e.g., in Retry-After or X-RateLimit-* headers) from the outcome of each
+  // work item, and applies them as by blockUntil and reportQuota. Returns undefined if the outcome reports no limits.
+  upstreamLimits?: (outcome: WorkOutcome<any>) => UpstreamLimits | undefined;
+  // Retry failed work. May be overridden for individual calls.
+  retry?: RetryOptions;
+  // Reject work that is not started within this many milliseconds of being provided, without starting it. May be
+  // overridden for individual calls.
+  queueTimeoutMs?: number;
+  // Reject work that does not complete within this many milliseconds of being started, releasing its slot in the
+  // throttle. May be overridden for individual calls.
+  executionTimeoutMs?: number;
+  // Limit the number of work items that may be queued (provided to the throttle but not yet started).
+  maxQueued?: number;
+  // What happens to work that is provided while the queue is full (default 'reject'):
+  //  - 'reject': the new work is rejected with a QueueOverflowError.
+  //  - 'dropOldest': the oldest queued work of the lowest priority is rejected with a QueueOverflowError to make room.
+  //    If the new work has a lower priority than all queued work, the new work is rejected instead.
+  //  - 'wait': the new work waits, outside the queue, until the queue has room.
+  overflow?: OverflowPolicy;
+  // Callbacks for lifecycle events, e.g., for exporting metrics. Errors thrown by hooks are ignored.
+  hooks?: AsyncThrottleHooks;
+  // Records the lifecycle of each work item, for rendering a timeline or exporting a trace.
+  trace?: TraceRecorder;
+  // Share maxQps and rateLimits with other throttles (e.g., in other processes) through a store.
+  shared?: SharedRateLimitOptions;
+  // The source of time and timers (default systemClock). Cannot be changed by setOptions.
+  clock?: Clock;
+  // A throttle whose limits also apply to all work started by this throttle (e.g., a limit for a vendor, above limits
+  // for each tenant). Work is only started once there is room for it in this throttle and in every ancestor, and it
+  // counts against all of them until it completes. Cannot be changed by setOptions.
+  parent?: AsyncThrottle;
 }
 
+export type OverflowPolicy = 'reject' | 'dropOldest' | 'wait';
+
+// Callbacks for lifecycle events. Each attempt at work (see RetryOptions) produces its own start and settle events.
+export interface AsyncThrottleHooks {
+  // Work was accepted into the queue.
+  enqueue?: (event: WorkEvent) => void;
+  // Work was started.
+  start?: (event: WorkEvent) => void;
+  // Started work completed (or timed out).
+  settle?: (event: WorkEvent) => void;
+  // Work was rejected without being started: aborted, timed out in the queue, dropped or turned away because the queue
+  // was full, or rejected because the throttle closed. For work that was enqueued, this ends it as start would.
+  cancel?: (event: WorkEvent) => void;
+  // Queued work was prevented from starting by a limit, when it previously was not.
+  throttled?: (event: ThrottledEvent) => void;
+  // All work is complete, as when whenDrained is resolved.
+  drained?: () => void;
+}
+
+// Describes work for a lifecycle event.
+export interface WorkEvent {
+  // Identifies the work within the throttle. Every attempt at the same work has the same id.
+  id: number;
+  priority: number;
+  // The attempt at the work, numbered from 1.
+  attempt: number;
+  // The time the work spent queued before starting (or being cancelled), and the limit (if any) that held it (for
+  // start, settle and cancel events).
+  queueWaitMs?: number;
+  waitReason?: ThrottledReason;
+  // The time the work spent running (for settle events), and its outcome (for settle and cancel events).
+  runTimeMs?: number;
+  outcome?: WorkOutcome<any>;
+  // Whether the work had been enqueued, i.e., whether an enqueue event preceded this one (for cancel events).
+  queued?: boolean;
+}
+
+// Describes the limit that is throttling queued work.
+export interface ThrottledEvent {
+  reason: ThrottledReason;
+  queued: number;
+}
+
+// The limit that is throttling queued work: maxOutstanding, the rate limits, the limits of an ancestor throttle, or the
+// limits reported by the upstream.
+export type ThrottledReason = 'outstanding' | 'rate' | 'parent' | 'upstream';
+
+// A snapshot of a throttle's state and history, as returned by getStats.
+export interface AsyncThrottleStats {
+  // The number of work items that are queued, and that are running.
+  queued: number;
+  running: number;
+  // For each rate window, the total cost of the work started within the window. maxStarts is undefined if the window is
+  // not limited.
+  windows: Array<{windowMs: number, maxStarts?: number, starts: number}>;
+  // The number of attempts at work that were started, and that succeeded and failed, since the throttle was created.
+  started: number;
+  succeeded: number;
+  failed: number;
+  // The distributions of the time that recent work spent queued before starting (or being cancelled), and running.
+  queueWaitMs: Distribution;
+  runTimeMs: Distribution;
+}
+
+// A summary of a distribution of measurements. All values are 0 if there are no measurements.
+export interface Distribution {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+// A limit on the number of work items that can be started within a rolling window of time.
+export interface RateLimit {
+  // The maximum number of work items that can be started within the window.
+  maxStarts: number;
+  // The length of the window, in milliseconds.
+  windowMs: number;
+}
+
+// A token bucket, which holds up to `burst` tokens and is refilled at `rate` tokens per second. Starting a work item
+// takes one token, so up to `burst` work items may be started at once, after which work is started at a steady `rate`.
+export interface TokenBucketOptions {
+  rate: number;
+  burst: number;
+}
+
+// Options for sharing a throttle's rate limits (maxQps and rateLimits) with other throttles, through a store that holds
+// the accounting for all of them. Each throttle still applies its own limits locally as well.
+export interface SharedRateLimitOptions {
+  store: RateLimitStore;
+  // Throttles using the same key (and store) share the same limits.
+  key: string;
+  // Rate limits to apply locally while the store is unavailable. Since each throttle applies these independently, they
+  // would usually be the throttle's share of the shared limits.
+  fallback?: RateLimit[];
+  // The time to wait for the store before treating it as unavailable (default 1000ms).
+  timeoutMs?: number;
+}
+
+// Accounting for rate limits that are shared between throttles. The store must reserve starts atomically with respect
+// to all throttles that use it.
+export interface RateLimitStore {
+  // Records a start of the given cost for the key if every limit has room for it, counting all starts recorded for the
+  // key within each limit's window. Resolves with 0 if the start was recorded, or otherwise with the delay until there
+  // may be room. Rejects (or never settles) if the store is unavailable. The signal aborts if the throttle stops
+  // waiting for the store, after which the store should not record the start, since it will not be used.
+  reserve(key: string, limits: RateLimit[], cost: number, signal?: AbortSignalLike): Promise<number>;
+}
+
+// The outcome of a work item: either the value it was fulfilled with, or the error it was rejected with.
+export type WorkOutcome<T> = {fulfilled: true, value: T} | {fulfilled: false, error: any};
+
+// The classification of a work outcome for adaptive throttling.
+export type AdaptiveSignal = 'ok' | 'overloaded' | 'ignore';
+
+// Inclusive bounds for an adaptive limit.
+export interface AdaptiveBounds {
+  min: number;
+  max: number;
+}
+
+// Options for adapting limits by additive increase/multiplicative decrease (AIMD). Each adaptive limit starts at its
+// configured value (or its upper bound, if it has no configured value), grows slowly while work succeeds, and is cut
+// sharply when the upstream reports that it is overloaded.
+export interface AdaptiveOptions {
+  // Classifies the outcome of each work item. For example, an HTTP 429 response or a timeout would be 'overloaded'.
+  classify: (outcome: WorkOutcome<any>) => AdaptiveSignal;
+  // The bounds within which maxQps is adapted. If not provided, maxQps is not adaptive.
+  qps?: AdaptiveBounds;
+  // The bounds within which maxOutstanding is adapted. If not provided, maxOutstanding is not adaptive.
+  outstanding?: AdaptiveBounds;
+  // The amount by which an adaptive limit grows for each limit's worth of 'ok' outcomes (default 1).
+  increase?: number;
+  // The factor by which an adaptive limit is multiplied for an 'overloaded' outcome (default 0.5). Work that was
+  // already running when a limit was cut cannot cut it again, so a burst of overloaded outcomes only cuts limits once.
+  decrease?: number;
+}
+
+// Limits reported by the upstream. Times are in milliseconds, as from the throttle's clock (Date.now by default), so
+// headers that give times in seconds must be converted.
+export interface UpstreamLimits {
+  // Start no work until this time (see blockUntil).
+  blockUntil?: number;
+  // The remaining quota (see reportQuota).
+  quota?: UpstreamQuota;
+}
+
+// The number of work items (by cost) that the upstream will accept until its quota resets at resetAt.
+export interface UpstreamQuota {
+  remaining: number;
+  resetAt: number;
+}
+
+// The limits currently in effect for a throttle. A limit is undefined if work is not throttled by it.
+export interface EffectiveLimits {
+  maxOutstanding?: number;
+  maxQps?: number;
+}
+
+// Options for retrying failed work. Each attempt is started by the throttle, and so counts against all limits. Between
+// attempts, work waits for an exponentially increasing delay (with random jitter), after which it is queued ahead of
+// any work of the same priority that was provided after it.
+export interface RetryOptions {
+  // The maximum number of attempts, including the first (default 3).
+  maxAttempts?: number;
+  // The delay before the first retry (default 100ms), and the factor by which the delay grows for each subsequent retry
+  // (default 2), up to a maximum delay (default 30000ms).
+  initialDelayMs?: number;
+  multiplier?: number;
+  maxDelayMs?: number;
+  // The fraction of each delay that is randomized (default 0.5), such that the actual delay is between
+  // (1 - jitter) * delay and delay.
+  jitter?: number;
+  // Determines whether the error from an attempt (numbered from 1) should be retried (default: all errors). Work that
+  // is aborted is never retried.
+  retryable?: (error: any, attempt: number) => boolean;
+}
+
+// A failed attempt at work.
+export interface RetryAttempt {
+  error: any;
+  startTime: number;
+  endTime: number;
+}
+
+// The error used to reject work that failed after more than one attempt.
+export class RetryError extends Error {
+  // The failed attempts, in order. The last attempt's error is also available as lastError.
+  readonly attempts: RetryAttempt[];
+  readonly lastError: any;
+
+  constructor(attempts: RetryAttempt[]) {
+    super(`Work failed after ${attempts.length} attempts.`);
+    this.name = 'RetryError';
+    this.attempts = attempts;
+    this.lastError = attempts[attempts.length - 1].error;
+  }
+}
+
+// The error used to reject callAnyThrottled when all work fails.
+export class AllFailedError extends Error {
+  // The errors of all work, in the order of the work.
+  readonly errors: any[];
+
+  constructor(errors: any[]) {
+    super(`All ${errors.length} work items failed.`);
+    this.name = 'AllFailedError';
+    this.errors = errors;
+  }
+}
+
+// The subset of the standard AbortSignal interface used by the throttle. Native signals (from an AbortController in
+// browsers or Node.js 15+) satisfy this interface, as does any compatible implementation.
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+// Options for closing a throttle. The mode determines what happens to work that was provided before the throttle was
+// closed but has not been started: 'drain' (the default) starts it as usual, while 'reject' rejects it with a
+// ThrottleClosedError. In either case, running work is allowed to complete.
+export interface CloseOptions {
+  mode?: 'drain' | 'reject';
+}
+
+// Options for callAllThrottled and the related helpers that settle before all work is complete.
+export interface CallAllOptions {
+  // Whether to also abort running work, through the signal provided to startWork, once the result is settled. Work that
+  // has not been started is always removed from the throttle.
+  abortRunning?: boolean;
+}
+
+// Options that apply to a single call to callThrottled.
+export interface CallThrottledOptions {
+  // A signal which aborts the work. Work that has not yet been started is removed from the throttle (without counting
+  // against any limits) and its promise is rejected with an AbortError. Work that is already running is not affected by
+  // the throttle, but receives the signal as the argument to startWork so that it can stop early.
+  signal?: AbortSignalLike;
+  // The priority of the work (default 0). Queued work with a higher priority is started before queued work with a lower
+  // priority; work with equal priority is started in the order it was provided. Running work is never preempted.
+  priority?: number;
+  // Options for retrying the work, which override the throttle's retry options. Use false to disable retries.
+  retry?: RetryOptions | false;
+  // Timeouts for the work, which override the throttle's timeouts. See AsyncThrottleOptions.
+  queueTimeoutMs?: number;
+  executionTimeoutMs?: number;
+  // The number of units the work counts as against rate limits (default 1), e.g., for a batch call that the upstream
+  // counts as several requests. Expired work gives back its full cost.
+  cost?: number;
+  // The number of units the work counts as against maxOutstanding while running (default 1).
+  outstandingCost?: number;
+  // Coalesces duplicate work: if work with the same key is queued or running in this throttle, the call shares its
+  // result instead of providing new work. Each caller's signal only aborts its own call; the shared work is aborted
+  // once every caller has aborted. The options of later calls (other than signal) are ignored.
+  dedupeKey?: string;
+  // The flow (e.g., the tenant) that the work belongs to. Queued work of equal priority is started fairly across flows,
+  // in proportion to their weights, rather than in the order it was provided. Work without a flow belongs to a single
+  // default flow.
+  flow?: string;
+  // The share of the throttle's capacity that the work's flow receives relative to other flows (default 1).
+  weight?: number;
+  // The time for which the successful result of work with a dedupeKey is reused by later calls with the same key, from
+  // when the work completes (default 0).
+  dedupeTtlMs?: number;
+}
+
+// The error used to reject work that was aborted before it was started.
+export class AbortError extends Error {
+  constructor(message: string = 'Work was aborted before it was started.') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+// The error used to reject work that was provided after the throttle was closed, or that was still queued when the
+// throttle was closed with the 'reject' mode.
+export class ThrottleClosedError extends Error {
+  constructor(message: string = 'Work was rejected because the throttle is closed.') {
+    super(message);
+    this.name = 'ThrottleClosedError';
+  }
+}
+
+// The error used to reject work that did not fit in the throttle's queue.
+export class QueueOverflowError extends Error {
+  constructor(message: string = 'Work was rejected because the queue is full.') {
+    super(message);
+    this.name = 'QueueOverflowError';
+  }
+}
+
+// The error used to reject work that was not started within its queue timeout.
+export class QueueTimeoutError extends Error {
+  constructor(message: string = 'Work was not started before its queue timeout.') {
+    super(message);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+// The error used to reject work that did not complete within its execution timeout.
+export class ExecutionTimeoutError extends Error {
+  constructor(message: string = 'Work did not complete before its execution timeout.') {
+    super(message);
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+// The work provided to the throttle, once it has been accepted into the queue.
+export interface AcceptedWork<T> {
+  // The promise that is settled with the outcome of the work, as returned by callThrottled.
+  whenComplete: Promise<T>;
+}
+
+// A function that starts asynchronous work, optionally observing the abort signal provided with the call.
+export type StartWork<T> = (signal?: AbortSignalLike) => Promise<T>;
+
 class Work<T> {
   // The function that starts the asynchronous work and generates a promise.
-  private readonly startWork: () => Promise<T>;
+  private readonly startWork: StartWork<T>;
+  // The options for this work, with defaults from the throttle applied, and the throttle's clock.
+  private readonly options: CallThrottledOptions;
+  private readonly clock: Clock;
+  // The signal (if any) that may abort this work.
+  private readonly signal?: AbortSignalLike;
+  // The callback (if any) that removes this work from the throttle before it is started, for when it is aborted or
+  // times out, and the timer for the queue timeout.
+  private onCancel: ((error: any) => void) | null;
+  private queueTimer: TimerHandle | null;
+  private readonly onSignalAborted = () => this.cancel(new AbortError());
+  // The priority of this work, relative to other queued work, and its order among work of the same priority.
+  readonly priority: number;
+  readonly sequence: number;
+  // The flow that this work belongs to, and the flow's share of the throttle's capacity, for fair queueing.
+  readonly flow: string;
+  readonly weight: number;
+  // The limit that most recently held this work while it was next to be started, if any.
+  waitReason: ThrottledReason | null;
+  // The units this work counts as against rate limits, and against maxOutstanding.
+  readonly cost: number;
+  readonly outstandingCost: number;
+  // Whether a start has been reserved for this work in the shared rate limit store.
+  reserved: boolean;
+  // The options for retrying this work, if any, and the failed attempts so far.
+  readonly retry: RetryOptions | null;
+  private attempts: RetryAttempt[];
 
-  // The immediately-available promise which will be settled when the work promise settles.
-  readonly whenComplete: Promise<T>;
+  // The immediately-available promise which will be settled when the work promise settles. This is shared by all
+  // attempts at the same work.
+  whenComplete: Promise<T>;
   private resolve: (value: T) => void;
   private reject: (error: any) => void;
+  // Called once the work is accepted into the queue, if the caller is waiting for that.
+  onAccepted: (() => void) | null;
+  // Called with the final outcome once started work is complete, before the throttle starts any other work, if the
+  // caller needs to react to that outcome before more work is started.
+  onSettled: ((outcome: WorkOutcome<T>) => void) | null;
+
+  // The time at which this work was provided to the throttle (or resubmitted for another attempt).
+  queuedTime: number;
+  readonly attempt = () => this.attempts.length + 1;
 
-  // The time at which this work expires. Expiration applies to QPS windowing, so work expires 1s after it is started.
-  private expirationTime: number;
-  readonly expirationDelay = () => Math.max(0, this.expirationTime - Date.now());
-  readonly isExpired = () => this.expirationTime && this.expirationDelay() <= 0;
+  // The time at which this work was started, or null if it has not been started.
+  startTime: number | null;
 
   // Doubly-liked list linkage.
   prev: Work<any>;
   next: Work<any>;
 
-  constructor(startWork: () => Promise<T>) {
+  constructor(startWork: StartWork<T>, options: CallThrottledOptions = {}, sequence = 0, clock: Clock = systemClock) {
     this.startWork = startWork;
+    this.options = options;
+    this.clock = clock;
+    this.signal = options.signal;
+    this.onCancel = null;
+    this.queueTimer = null;
+    this.priority = options.priority || 0;
+    this.cost = options.cost !== undefined ? options.cost : 1;
+    this.outstandingCost = options.outstandingCost !== undefined ? options.outstandingCost : 1;
+    this.reserved = false;
+    this.sequence = sequence;
+    this.flow = options.flow || '';
+    this.weight = options.weight || 1;
+    this.waitReason = null;
+    this.retry = options.retry || null;
+    this.attempts = [];
+    this.onAccepted = null;
+    this.onSettled = null;
     this.whenComplete = new Promise<T>((resolve, reject) => {
       this.resolve = resolve;
       this.reject = reject;
     });
-    this.expirationTime = 0;
+    this.queuedTime = this.clock.now();
+    this.startTime = null;
     this.prev = this;
     this.next = this;
   }
@@ -50,47 +460,775 @@ class Work<T> {
     this.next.prev = this.prev;
   }
 
-  execute(cleanup: () => void) {
-    this.expirationTime = Date.now() + 1000;
+  // Registers a callback to run if the work is cancelled (because the signal aborts or the queue timeout passes) before
+  // it is started. Returns false (without registering) if the signal has already been aborted.
+  listenForCancel(onCancel: (error: any) => void): boolean {
+    if (this.signal && this.signal.aborted) {
+      return false;
+    }
+    this.onCancel = onCancel;
+    if (this.signal) {
+      this.signal.addEventListener('abort', this.onSignalAborted);
+    }
+    return true;
+  }
+
+  stopListeningForCancel() {
+    if (this.signal && this.onCancel) {
+      this.signal.removeEventListener('abort', this.onSignalAborted);
+    }
+    this.onCancel = null;
+  }
+
+  // Cancels the work, if it is listening for cancellation.
+  cancel(error: any) {
+    if (this.onCancel) {
+      this.onCancel(error);
+    }
+  }
+
+  // Records the time at which the work was provided to the throttle, and starts the timer for the queue timeout (if
+  // any), which cancels the work if it is not started in time.
+  markQueued() {
+    this.queuedTime = this.clock.now();
+    if (this.options.queueTimeoutMs) {
+      this.queueTimer = this.clock.setTimer(() => this.cancel(new QueueTimeoutError()), this.options.queueTimeoutMs);
+    }
+  }
+
+  private stopQueueTimer() {
+    if (this.queueTimer) {
+      this.clock.clearTimer(this.queueTimer);
+      this.queueTimer = null;
+    }
+  }
+
+  // Settles unstarted work as aborted, or as rejected by the throttle for some other reason.
+  abort(error: any = new AbortError()) {
+    this.stopListeningForCancel();
+    this.stopQueueTimer();
+    this.reject(error);
+  }
+
+  // Returns the delay before the next attempt, or null if this work should not be retried after failing with the error.
+  retryDelay(error: any): number | null {
+    const retry = this.retry;
+    const attempt = this.attempts.length + 1;
+    if (!retry || attempt >= (retry.maxAttempts || 3) || error instanceof AbortError ||
+        (this.signal && this.signal.aborted) || (retry.retryable && !retry.retryable(error, attempt))) {
+      return null;
+    }
+    const initialDelayMs = retry.initialDelayMs === undefined ? 100 : retry.initialDelayMs;
+    const multiplier = retry.multiplier === undefined ? 2 : retry.multiplier;
+    const maxDelayMs = retry.maxDelayMs === undefined ? 30000 : retry.maxDelayMs;
+    const jitter = retry.jitter === undefined ? 0.5 : retry.jitter;
+    const delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(multiplier, attempt - 1));
+    return delay * (1 - jitter * Math.random());
+  }
+
+  // Creates the work for another attempt after this attempt failed with the error. The new work settles the same
+  // promise as this work.
+  nextAttempt(error: any): Work<T> {
+    const work = new Work<T>(this.startWork, this.options, this.sequence, this.clock);
+    work.whenComplete = this.whenComplete;
+    work.resolve = this.resolve;
+    work.reject = this.reject;
+    work.onSettled = this.onSettled;
+    work.attempts = [...this.attempts, {error, startTime: this.startTime!, endTime: this.clock.now()}];
+    return work;
+  }
+
+  // Returns the outcome of this work, given the outcome of its final attempt. Work that failed after being retried
+  // fails with a RetryError.
+  finalOutcome(outcome: WorkOutcome<T>): WorkOutcome<T> {
+    if (!outcome.fulfilled && this.attempts.length > 0) {
+      const attempt = {error: outcome.error, startTime: this.startTime!, endTime: this.clock.now()};
+      return {fulfilled: false, error: new RetryError([...this.attempts, attempt])};
+    }
+    return outcome;
+  }
+
+  // Settles the promise for this work with its final outcome.
+  settle(outcome: WorkOutcome<T>) {
+    if (outcome.fulfilled) {
+      this.resolve(outcome.value);
+    } else {
+      this.reject(outcome.error);
+    }
+  }
+
+  // Starts the work. The promise for the work is not settled by this call; instead, onComplete is called with the
+  // outcome, and is responsible for settling the work. If the execution timeout passes first, onComplete is called
+  // with an ExecutionTimeoutError, the work's signal is aborted, and the eventual outcome of the work is ignored.
+  execute(onComplete: (outcome: WorkOutcome<T>) => void) {
+    this.stopListeningForCancel();
+    this.stopQueueTimer();
+    this.startTime = this.clock.now();
+
+    const executionTimeoutMs = this.options.executionTimeoutMs;
+    const signal = executionTimeoutMs ? new WorkSignal(this.signal) : null;
+    let timer: TimerHandle | null = null;
+    let complete = (outcome: WorkOutcome<T>) => {
+      complete = () => {};
+      if (timer) {
+        this.clock.clearTimer(timer);
+      }
+      if (signal) {
+        signal.detach();
+      }
+      onComplete(outcome);
+    };
+    if (signal && executionTimeoutMs) {
+      timer = this.clock.setTimer(() => {
+        complete({fulfilled: false, error: new ExecutionTimeoutError()});
+        signal.abort();
+      }, executionTimeoutMs);
+    }
+
     try {
-      this.startWork()
-        .finally(cleanup)
-        .then(this.resolve)
-        .catch(this.reject)
+      this.startWork(signal || this.signal)
+        .then(value => complete({fulfilled: true, value}), error => complete({fulfilled: false, error}));
     } catch (e) {
-      cleanup();
-      this.reject(e);
-    } finally {
-      return this.whenComplete;
+      complete({fulfilled: false, error: e});
+    }
+  }
+}
+
+// The signal provided to work that has an execution timeout. It aborts when the work times out, or when the signal
+// provided with the call (if any) aborts.
+class WorkSignal implements AbortSignalLike {
+  aborted: boolean;
+  private readonly parent?: AbortSignalLike;
+  private listeners: Array<() => void>;
+
+  constructor(parent?: AbortSignalLike) {
+    this.aborted = false;
+    this.parent = parent;
+    this.listeners = [];
+    if (parent) {
+      parent.addEventListener('abort', this.abort);
+    }
+  }
+
+  addEventListener(type: 'abort', listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(type: 'abort', listener: () => void) {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  readonly abort = () => {
+    if (!this.aborted) {
+      this.aborted = true;
+      this.detach();
+      this.listeners.forEach(listener => listener());
+    }
+  }
+
+  // Stops following the parent signal, once the work is complete.
+  detach() {
+    if (this.parent) {
+      this.parent.removeEventListener('abort', this.abort);
+    }
+  }
+}
+
+// The signal for work shared by callers with the same dedupeKey. It aborts once every caller that joined has aborted,
+// which never happens while a caller without a signal is waiting.
+class SharedSignal implements AbortSignalLike {
+  aborted: boolean;
+  private waiting: number;
+  private listeners: Array<() => void>;
+
+  constructor() {
+    this.aborted = false;
+    this.waiting = 0;
+    this.listeners = [];
+  }
+
+  addEventListener(type: 'abort', listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(type: 'abort', listener: () => void) {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  // Returns a promise for the result of the shared work for a caller, which is rejected with an AbortError if the
+  // caller's signal aborts first.
+  join<T>(whenComplete: Promise<T>, signal?: AbortSignalLike): Promise<T> {
+    this.waiting += 1;
+    if (!signal) {
+      return whenComplete;
+    }
+    if (signal.aborted) {
+      this.leave();
+      return Promise.reject(new AbortError());
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new AbortError('Stopped waiting for work shared with other callers.'));
+        this.leave();
+      };
+      signal.addEventListener('abort', onAbort);
+      whenComplete.then(value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      }, error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+    });
+  }
+
+  private leave() {
+    this.waiting -= 1;
+    if (this.waiting === 0 && !this.aborted) {
+      this.aborted = true;
+      this.listeners.forEach(listener => listener());
+    }
+  }
+}
+
+// The accounting for a limit on the rate at which work is started.
+interface RateLimiter {
+  // Whether a work item of the given cost can be started without exceeding the limit. Work that costs more than the
+  // limit allows in total can still be started once the limiter holds no other started work.
+  readonly atLimit: (cost: number) => boolean;
+  // The delay until a work item of the given cost can be started. Only valid if atLimit(cost).
+  readonly limitDelay: (cost: number) => number;
+  // The delay until the limiter no longer holds any state from started work.
+  readonly idleDelay: () => number;
+  // Accounts for a work item of the given cost being started.
+  recordStart(cost: number): void;
+}
+
+// A start of work, as tracked by the throttle until it expires from the longest rate window. Only the time and cost of
+// the start are kept, so that the work itself (its function, options and result) is not retained once it settles.
+// Expiration applies to rate windowing, so a start expires from a window the length of that window after it happened.
+class StartEntry {
+  readonly startTime: number;
+  readonly cost: number;
+  private readonly clock: Clock;
+  readonly expirationDelay = (windowMs: number) => Math.max(0, this.startTime + windowMs - this.clock.now());
+  readonly isExpired = (windowMs: number) => this.expirationDelay(windowMs) <= 0;
+
+  // Doubly-liked list linkage.
+  prev: StartEntry;
+  next: StartEntry;
+
+  constructor(startTime: number, cost: number, clock: Clock) {
+    this.startTime = startTime;
+    this.cost = cost;
+    this.clock = clock;
+    this.prev = this;
+    this.next = this;
+  }
+
+  insertAfter(entry: StartEntry) {
+    this.prev = entry;
+    this.next = entry.next;
+    this.prev.next = this;
+    this.next.prev = this;
+  }
+
+  remove() {
+    this.prev.next = this.next;
+    this.next.prev = this.prev;
+  }
+}
+
+// The accounting for a single rate limit. Work enters the window when it is started, and expires from it windowMs
+// later. Since starts are appended to the throttle's list in order, the starts within the window are always the run
+// of entries following expiredPredecessor in the list.
+class RateWindow implements RateLimiter {
+  maxStarts: number;
+  readonly windowMs: number;
+  // The total cost of the work items started within the window, and the predecessor of the oldest of them.
+  count: number;
+  expiredPredecessor: StartEntry;
+  // The time at which the newest work item in the window was started, and the throttle's clock.
+  private lastStartTime: number;
+  private readonly clock: Clock;
+  readonly atLimit = (cost: number) => this.count > 0 && this.count + cost > this.maxStarts;
+  readonly idleDelay = () => this.count > 0 ? Math.max(0, this.lastStartTime + this.windowMs - this.clock.now()) : 0;
+
+  // Creates a window that accounts for all starts in the throttle's list, from the start of the list through
+  // lastStarted. Work that has already expired from the window is purged by the next call to purgeExpiredWork.
+  constructor(limit: RateLimit, startList: StartEntry, lastStarted: StartEntry, clock: Clock) {
+    this.clock = clock;
+    this.maxStarts = limit.maxStarts;
+    this.windowMs = limit.windowMs;
+    this.count = 0;
+    this.expiredPredecessor = startList;
+    for (let entry = startList; entry !== lastStarted; entry = entry.next) {
+      this.count += entry.next.cost;
+    }
+    this.lastStartTime = lastStarted === startList ? 0 : lastStarted.startTime;
+  }
+
+  // Work expires from the window in the order it was started, so the delay is until enough of the oldest work has
+  // expired to make room.
+  limitDelay(cost: number): number {
+    let remaining = this.count;
+    let entry = this.expiredPredecessor.next;
+    while (remaining - entry.cost > 0 && remaining - entry.cost + cost > this.maxStarts) {
+      remaining -= entry.cost;
+      entry = entry.next;
+    }
+    return entry.expirationDelay(this.windowMs);
+  }
+
+  recordStart(cost: number) {
+    this.count += cost;
+    this.lastStartTime = this.clock.now();
+  }
+
+  // Advances the window past all work that has expired from it.
+  purgeExpiredWork() {
+    while (this.expiredPredecessor.next.isExpired(this.windowMs)) {
+      this.expiredPredecessor = this.expiredPredecessor.next;
+      this.count -= this.expiredPredecessor.cost;
+    }
+  }
+}
+
+// A token bucket, implemented as the equivalent generic cell rate algorithm: rather than a (fractional) count of
+// tokens, it tracks the time at which the bucket will next be full. Starting work moves this time forward by the
+// interval between tokens, and work can be started as long as the bucket would be full again within the time taken to
+// refill all but one token.
+class TokenBucket implements RateLimiter {
+  // The time taken to refill one token, and to refill all but one token.
+  private readonly interval: number;
+  private readonly tolerance: number;
+  private readonly burst: number;
+  private fullTime: number;
+  private readonly clock: Clock;
+  readonly atLimit = (cost: number) => this.limitDelay(cost) > 0;
+  // Work costing more than the burst waits for a full bucket, and leaves the bucket in deficit.
+  readonly limitDelay = (cost: number) => Math.max(0,
+    Math.ceil(this.fullTime - this.tolerance + (Math.min(cost, this.burst) - 1) * this.interval - this.clock.now()));
+  readonly idleDelay = () => Math.max(0, Math.ceil(this.fullTime - this.clock.now()));
+
+  constructor(options: TokenBucketOptions, clock: Clock, previous?: TokenBucket) {
+    this.clock = clock;
+    this.interval = 1000 / options.rate;
+    this.burst = options.burst;
+    this.tolerance = (options.burst - 1) * this.interval;
+    this.fullTime = 0;
+    if (previous) {
+      // Carry over the tokens missing from the previous bucket, to be refilled at the new rate.
+      const now = this.clock.now();
+      this.fullTime = now + Math.max(0, previous.fullTime - now) / previous.interval * this.interval;
+    }
+  }
+
+  recordStart(cost: number) {
+    this.fullTime = Math.max(this.fullTime, this.clock.now()) + cost * this.interval;
+  }
+}
+
+// A sample of the most recent measurements, for summarizing their distribution.
+class Samples {
+  static readonly capacity = 1000;
+
+  private readonly values: number[];
+  private nextIndex: number;
+
+  constructor() {
+    this.values = [];
+    this.nextIndex = 0;
+  }
+
+  add(value: number) {
+    this.values[this.nextIndex] = value;
+    this.nextIndex = (this.nextIndex + 1) % Samples.capacity;
+  }
+
+  distribution(): Distribution {
+    const sorted = this.values.slice().sort((a, b) => a - b);
+    // Nearest-rank percentiles.
+    const percentile = (p: number) => sorted.length ? sorted[Math.ceil(p * sorted.length) - 1] : 0;
+    return {
+      count: sorted.length,
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99),
+      max: percentile(1),
+    };
+  }
+}
+
+// The queued work of one flow at one priority, as a circular doubly-linked list in the same manner as the throttle's
+// startList. Work is due to start in the order it was provided, except that a retry is due ahead of work provided after
+// the work it retries.
+class FlowQueue {
+  private readonly list: Work<void>;
+  size: number;
+  // The virtual time at which the flow's first queued work is due to start, and the virtual time up to which the flow
+  // was served by its previously started work.
+  startTag: number;
+  finishTag: number;
+  // The flow's position in the heap of its FairQueue, while it has queued work.
+  heapIndex: number;
+
+  constructor() {
+    this.list = new Work<void>(() => Promise.resolve());
+    this.size = 0;
+    this.startTag = 0;
+    this.finishTag = 0;
+    this.heapIndex = -1;
+  }
+
+  head(): Work<any> {
+    return this.list.next;
+  }
+
+  push(work: Work<any>) {
+    let predecessor = this.list.prev;
+    if (predecessor !== this.list && predecessor.sequence > work.sequence) {
+      // A retry belongs among the oldest work, so its place is found from the head.
+      predecessor = this.list;
+      while (predecessor.next !== this.list && predecessor.next.sequence < work.sequence) {
+        predecessor = predecessor.next;
+      }
+    }
+    work.insertAfter(predecessor);
+    this.size += 1;
+  }
+
+  remove(work: Work<any>) {
+    work.remove();
+    this.size -= 1;
+  }
+
+  forEach(callback: (work: Work<any>) => void) {
+    for (let work = this.list.next; work !== this.list; work = work.next) {
+      callback(work);
     }
   }
 }
 
+// The queued work of one priority, with a FlowQueue for each flow. The flows take turns by start-time fair queueing: a
+// flow with queued work is due to start it at a virtual time, being when its previous work was served up to (or the
+// current virtual time, if it has fallen behind), and starting the work serves the flow for cost / weight beyond that.
+// Flows with queued work are kept in a binary heap by when they are due (then by the order their first work was
+// provided), so that adding, removing and starting work take O(log flows).
+class FairQueue {
+  size: number;
+  // The virtual time at which the latest started work was due, and every flow that has had queued work (since flows
+  // without queued work still remember how far they were served).
+  private virtualTime: number;
+  private readonly flows: Map<string, FlowQueue>;
+  private readonly heap: FlowQueue[];
+
+  constructor() {
+    this.size = 0;
+    this.virtualTime = 0;
+    this.flows = new Map<string, FlowQueue>();
+    this.heap = [];
+  }
+
+  // The work that is due to start first.
+  peek(): Work<any> {
+    return this.heap[0].head();
+  }
+
+  push(work: Work<any>) {
+    let flow = this.flows.get(work.flow);
+    if (!flow) {
+      flow = new FlowQueue();
+      this.flows.set(work.flow, flow);
+    }
+    const head = flow.size > 0 ? flow.head() : null;
+    flow.push(work);
+    this.size += 1;
+    if (!head) {
+      flow.startTag = Math.max(this.virtualTime, flow.finishTag);
+      flow.heapIndex = this.heap.length;
+      this.heap.push(flow);
+      this.reposition(flow);
+    } else if (flow.head() !== head) {
+      this.reposition(flow);
+    }
+  }
+
+  remove(work: Work<any>) {
+    const flow = this.flows.get(work.flow)!;
+    const wasHead = flow.head() === work;
+    flow.remove(work);
+    this.size -= 1;
+    if (wasHead) {
+      this.onHeadRemoved(flow);
+    }
+  }
+
+  // Removes the work that is due to start first, serving its flow.
+  shift(): Work<any> {
+    const flow = this.heap[0];
+    const work = flow.head();
+    flow.remove(work);
+    this.size -= 1;
+    this.virtualTime = Math.max(this.virtualTime, flow.startTag);
+    flow.finishTag = flow.startTag + work.cost / work.weight;
+    this.onHeadRemoved(flow);
+    return work;
+  }
+
+  forEach(callback: (work: Work<any>) => void) {
+    this.flows.forEach(flow => flow.forEach(callback));
+  }
+
+  // Updates the heap once a flow's first work is removed: the flow is due again from how far it has been served, or
+  // leaves the heap if it has no more queued work.
+  private onHeadRemoved(flow: FlowQueue) {
+    if (flow.size > 0) {
+      flow.startTag = Math.max(this.virtualTime, flow.finishTag);
+      this.reposition(flow);
+      return;
+    }
+    const last = this.heap.pop()!;
+    if (last !== flow) {
+      this.heap[flow.heapIndex] = last;
+      last.heapIndex = flow.heapIndex;
+      this.reposition(last);
+    }
+    flow.heapIndex = -1;
+  }
+
+  // Moves a flow up or down the heap to where it belongs.
+  private reposition(flow: FlowQueue) {
+    const isDueBefore = (a: FlowQueue, b: FlowQueue) =>
+      a.startTag < b.startTag || a.startTag === b.startTag && a.head().sequence < b.head().sequence;
+    const swap = (i: number, j: number) => {
+      [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+      this.heap[i].heapIndex = i;
+      this.heap[j].heapIndex = j;
+    };
+    let index = flow.heapIndex;
+    while (index > 0 && isDueBefore(flow, this.heap[(index - 1) >> 1])) {
+      swap(index, (index - 1) >> 1);
+      index = (index - 1) >> 1;
+    }
+    for (;;) {
+      let earliest = index;
+      [2 * index + 1, 2 * index + 2].forEach(child => {
+        if (child < this.heap.length && isDueBefore(this.heap[child], this.heap[earliest])) {
+          earliest = child;
+        }
+      });
+      if (earliest === index) {
+        return;
+      }
+      swap(index, earliest);
+      index = earliest;
+    }
+  }
+}
+
+// All queued work, with a FairQueue for each priority. Queued work of a higher priority is always due to start before
+// queued work of a lower priority. A priority forgets its flows once it has no queued work, since every flow has then
+// been served as far as it asked.
+class ReadyQueue {
+  size: number;
+  private readonly levels: Map<number, FairQueue>;
+  // The priorities that have queued work, from highest to lowest.
+  private priorities: number[];
+
+  constructor() {
+    this.size = 0;
+    this.levels = new Map<number, FairQueue>();
+    this.priorities = [];
+  }
+
+  // The work that is due to start first, or null if no work is queued.
+  peek(): Work<any> | null {
+    return this.size > 0 ? this.levels.get(this.priorities[0])!.peek() : null;
+  }
+
+  // The work of the lowest priority that is due to start first, or null if no work is queued.
+  peekLowest(): Work<any> | null {
+    return this.size > 0 ? this.levels.get(this.priorities[this.priorities.length - 1])!.peek() : null;
+  }
+
+  push(work: Work<any>) {
+    let level = this.levels.get(work.priority);
+    if (!level) {
+      level = new FairQueue();
+      this.levels.set(work.priority, level);
+      this.priorities.push(work.priority);
+      this.priorities.sort((a, b) => b - a);
+    }
+    level.push(work);
+    this.size += 1;
+  }
+
+  remove(work: Work<any>) {
+    const level = this.levels.get(work.priority)!;
+    level.remove(work);
+    this.size -= 1;
+    this.removeIfEmpty(work.priority, level);
+  }
+
+  // Removes the work that is due to start first. Only valid if work is queued.
+  shift(): Work<any> {
+    const level = this.levels.get(this.priorities[0])!;
+    const work = level.shift();
+    this.size -= 1;
+    this.removeIfEmpty(work.priority, level);
+    return work;
+  }
+
+  forEach(callback: (work: Work<any>) => void) {
+    this.priorities.forEach(priority => this.levels.get(priority)!.forEach(callback));
+  }
+
+  private removeIfEmpty(priority: number, level: FairQueue) {
+    if (level.size === 0) {
+      this.levels.delete(priority);
+      this.priorities = this.priorities.filter(p => p !== priority);
+    }
+  }
+}
+
+// Calls a hook, if provided. Hooks are for observation only, so errors are ignored in order to protect the throttle.
+function callHook<E>(hook: ((event: E) => void) | undefined, event: E) {
+  if (hook) {
+    try {
+      hook(event);
+    } catch (e) {
+      // Ignored.
+    }
+  }
+}
+
+// Combines two sets of hooks, so that each event is reported to both.
+function combineHooks(first: AsyncThrottleHooks, second: AsyncThrottleHooks): AsyncThrottleHooks {
+  const drained = first.drained && second.drained ? () => {
+    callHook<void>(first.drained, undefined);
+    callHook<void>(second.drained, undefined);
+  } : first.drained || second.drained;
+  return {
+    enqueue: combineHook(first.enqueue, second.enqueue),
+    start: combineHook(first.start, second.start),
+    settle: combineHook(first.settle, second.settle),
+    cancel: combineHook(first.cancel, second.cancel),
+    throttled: combineHook(first.throttled, second.throttled),
+    drained,
+  };
+}
+
+// Combines two hooks for the same event, either of which may be missing.
+function combineHook<E>(first?: (event: E) => void, second?: (event: E) => void): ((event: E) => void) | undefined {
+  if (first && second) {
+    return event => {
+      callHook(first, event);
+      callHook(second, event);
+    };
+  }
+  return first || second;
+}
+
+function clamp(value: number, bounds: AdaptiveBounds): number {
+  return Math.min(bounds.max, Math.max(bounds.min, value));
+}
+
 export class AsyncThrottle {
-  // The list of work that must be tracked by the throttle. The list includes work that has been executed less than one
-  // second ago (even if it is complete) as well as work that has not been started due to being throttled.
-  // NB: This is a circular doubly-linked list. This means the last item points to workList, and an empty list consists
-  // of workList pointing to itself in both directions.
-  private readonly workList: Work<void>;
-  private readonly first = () => this.workList.next;
-  private readonly last = () => this.workList.prev;
-  private readonly hasExpiredWork = () => this.first().isExpired();
-  // Within the above list, the predecessor of the oldest work item that has not yet been executed. If the throttle is
-  // empty or all tracked work has been executed, readyWorkPredecessor.next will point to workList.
-  private readyWorkPredecessor: Work<any>;
-  private readonly hasReadyWork = () => this.readyWorkPredecessor.next !== this.workList;
-
-  // Throttle parameters.
-  private readonly maxOutstanding: number;
+  // The starts of work that must be tracked by the throttle, being those still within the longest rate window (even if
+  // the work is complete), in the order they happened.
+  // NB: This is a circular doubly-linked list. This means the last item points to startList, and an empty list consists
+  // of startList pointing to itself in both directions.
+  private readonly startList: StartEntry;
+  private readonly first = () => this.startList.next;
+  private readonly last = () => this.startList.prev;
+  // The work that has not been started due to being throttled, ordered by priority, then fairly across flows, then by
+  // age. A start is appended to startList as work is started.
+  private readonly readyQueue: ReadyQueue;
+  private readonly hasReadyWork = () => this.readyQueue.size > 0;
+  // Work that was provided while the queue was full, under the 'wait' overflow policy, in the order provided. This is a
+  // circular doubly-linked list in the same manner as startList.
+  private readonly waitingList: Work<void>;
+  private readonly hasWaitingWork = () => this.waitingList.next !== this.waitingList;
+
+  // The source of time and timers.
+  private readonly clock: Clock;
+
+  // Throttle parameters, as provided to the constructor and updated by setOptions.
+  private options: AsyncThrottleOptions;
+  private maxOutstanding: number;
+  // The number of running work items, and their total outstanding cost. Work that costs more than maxOutstanding can
+  // still be started once no other work is running.
   private outstandingCount: number;
-  private readonly atMaxOutstanding = () => this.outstandingCount >= this.maxOutstanding;
-  private readonly maxQps: number;
-  private qpsCount: number;
-  private readonly atMaxQps = () => this.qpsCount >= this.maxQps;
-  private readonly canExecuteWork = () => !this.atMaxQps() && !this.atMaxOutstanding();
-  // The timer that will trigger when the oldest executed work item becomes one second old. This timer will only be set
-  // when throttling because of on QPS (i.e., atMaxQps === true).
-  private expiringWorkTimer: NodeJS.Timer | null;
+  private outstandingUnits: number;
+  private readonly atMaxOutstanding = (cost: number) =>
+    this.outstandingUnits > 0 && this.outstandingUnits + cost > this.maxOutstanding;
+  private maxQueued: number;
+  private readonly atMaxQueued = () => this.readyQueue.size >= this.maxQueued;
+  // The rate windows, ordered from shortest to longest. Work is removed from the list once it expires from the longest.
+  private rateWindows: RateWindow[];
+  private readonly longestRateWindow = () => this.rateWindows[this.rateWindows.length - 1];
+  // The rate window for maxQps, if any.
+  private qpsWindow: RateWindow | null;
+  // The current values of adaptive limits (which may be fractional), or null for limits that are not adaptive. Work
+  // started no later than lastDecreaseTime cannot decrease these further.
+  private adaptiveOutstanding: number | null;
+  private adaptiveQps: number | null;
+  private lastDecreaseTime: number;
+  // The token bucket, if used, and all rate limiters (being the rate windows and the token bucket).
+  private tokenBucket: TokenBucket | null;
+  private rateLimiters: RateLimiter[];
+  private readonly atRateLimit = (cost: number) => this.rateLimiters.some(limiter => limiter.atLimit(cost));
+  // Work is started strictly in queue order, so the next ready work waits until there is room for its full cost and
+  // cheaper work behind it cannot starve it.
+  private readonly nextWork = () => this.readyQueue.peek()!;
+  private readonly canExecuteWork = () => !this.paused && !this.atRateLimit(this.nextWork().cost) &&
+    !this.atUpstreamLimit(this.nextWork().cost) &&
+    !this.atMaxOutstanding(this.nextWork().outstandingCost) && this.ancestorDelay(this.nextWork()) === 0;
+  // The parent throttle, if any, and the child throttles that currently have work. Children are notified whenever this
+  // throttle processes work, since it may then have room for their work.
+  private readonly parent: AsyncThrottle | null;
+  private readonly children: Set<AsyncThrottle>;
+  // The limits reported by the upstream: the time until which no work is started, and the remaining quota (if any)
+  // until it resets.
+  private blockedUntil: number;
+  private upstreamQuota: UpstreamQuota | null;
+  private readonly atUpstreamLimit = (cost: number) => this.upstreamDelay(cost) > 0;
+  // For shared rate limits: the windows whose limits are shared through the store, and the windows for the fallback
+  // limits (which are unlimited while the store is available). No work is started while awaiting a reservation from
+  // the store, or the delay before requesting another. After the store fails, work is started without reservations
+  // until storeRetryTime.
+  private sharedWindows: RateWindow[];
+  private fallbackWindows: RateWindow[];
+  private awaitingStore: boolean;
+  private storeAvailable: boolean;
+  private storeRetryTime: number;
+  // The timer that will trigger when enough executed work has expired for every rate window to have room. This timer
+  // will only be set when throttling because of rate limits (i.e., atRateLimit(cost) === true). It is due at
+  // expiringWorkTime.
+  private expiringWorkTimer: TimerHandle | null;
+  private expiringWorkTime: number;
+
+  // Work provided with a dedupeKey, by key, while it is queued or running and for its dedupeTtlMs after it succeeds.
+  private readonly dedupedWork: Map<string, {whenComplete: Promise<any>, signal: SharedSignal}>;
+
+  // The sequence number for the next work provided to the throttle, which orders work of equal priority within a flow.
+  private nextSequence: number;
+  // Work that failed and is waiting to be retried.
+  private readonly pendingRetries: Set<Work<any>>;
+  // Whether the throttle is paused (starting no work), and the mode it was closed with, if closed.
+  private paused: boolean;
+  private closeMode: 'drain' | 'reject' | null;
+
+  // Statistics for getStats, and the limit (if any) that last prevented queued work from starting.
+  private startedCount: number;
+  private succeededCount: number;
+  private failedCount: number;
+  private readonly queueWaitSamples: Samples;
+  private readonly runTimeSamples: Samples;
+  private throttledReason: ThrottledReason | null;
+  // The hooks, combined with those of the trace recorder (if any).
+  private hooks: AsyncThrottleHooks;
 
   // A promise that is fulfilled when there is no more outstanding work. This promise exists as long as there is some
   // work that was tracked by the throttle that has not yet completed, but is set to null once the throttle is in a
@@ -99,89 +1237,574 @@ export class AsyncThrottle {
   private onLastWorkItemDrained: (() => void) | null;
   private onWorkItemEnqueued() {
     if (!this.whenQuiescent) {
+      if (this.parent) {
+        this.parent.children.add(this);
+      }
       this.whenQuiescent = new Promise<void>(resolve => {
         this.onLastWorkItemDrained = () => {
           resolve();
           this.whenQuiescent = null;
           this.onLastWorkItemDrained = null;
+          if (this.parent) {
+            this.parent.children.delete(this);
+          }
+          callHook<void>(this.hooks.drained, undefined);
         };
       });
     }
   }
+  private onWorkItemSettled() {
+    if (this.outstandingCount === 0 && this.pendingRetries.size === 0 &&
+        !this.hasReadyWork() && !this.hasWaitingWork()) {
+      // ASSERT(this.onLastWorkItemDrained);
+      this.onLastWorkItemDrained!();
+    }
+  }
 
   constructor(options: AsyncThrottleOptions) {
-    this.workList = new Work<void>(() => Promise.resolve());
-    this.readyWorkPredecessor = this.workList;
+    this.clock = options.clock || systemClock;
+    this.parent = options.parent || null;
+    this.children = new Set<AsyncThrottle>();
+    // The list head never expires.
+    this.startList = new StartEntry(Infinity, 0, this.clock);
+    this.readyQueue = new ReadyQueue();
+    this.waitingList = new Work<void>(() => Promise.resolve());
 
-    this.maxOutstanding = options.maxOutstanding || Number.MAX_SAFE_INTEGER;
     this.outstandingCount = 0;
-    this.maxQps = options.maxQps || Number.MAX_SAFE_INTEGER;
-    this.qpsCount = 0;
+    this.outstandingUnits = 0;
+    this.blockedUntil = -Infinity;
+    this.upstreamQuota = null;
+    this.awaitingStore = false;
+    this.storeAvailable = true;
+    this.storeRetryTime = -Infinity;
+    this.dedupedWork = new Map<string, {whenComplete: Promise<any>, signal: SharedSignal}>();
+    this.nextSequence = 0;
+    this.pendingRetries = new Set<Work<any>>();
+    this.paused = false;
+    this.closeMode = null;
+    this.startedCount = 0;
+    this.succeededCount = 0;
+    this.failedCount = 0;
+    this.queueWaitSamples = new Samples();
+    this.runTimeSamples = new Samples();
+    this.throttledReason = null;
+    this.tokenBucket = null;
+    this.lastDecreaseTime = -Infinity;
+    this.configure(options);
     this.expiringWorkTimer = null;
+    this.expiringWorkTime = Infinity;
 
     this.whenQuiescent = null;
     this.onLastWorkItemDrained = null;
   }
 
-  // Removes all expired work items from the list and updates tracking counts.
+  // Applies throttle parameters. Rate windows are rebuilt from the started work that is still in the list, so work
+  // started under previous parameters continues to count against the new ones.
+  // Adaptive limits keep their current values (within any new bounds), unless the limit they started from changed.
+  private configure(options: AsyncThrottleOptions) {
+    const adaptive = options.adaptive;
+    if (options.tokenBucket && (options.maxQps || options.rateLimits || (adaptive && adaptive.qps))) {
+      throw new Error('The tokenBucket option cannot be combined with maxQps, rateLimits or adaptive QPS.');
+    }
+
+    const previous: AsyncThrottleOptions | undefined = this.options;
+    this.options = {...options};
+    this.hooks = combineHooks(options.hooks || {}, options.trace ? options.trace.hooks : {});
+    const keepOutstanding = previous && this.adaptiveOutstanding !== null &&
+      options.maxOutstanding === previous.maxOutstanding;
+    const keepQps = previous && this.adaptiveQps !== null && options.maxQps === previous.maxQps;
+    this.adaptiveOutstanding = adaptive && adaptive.outstanding ? clamp(
+      keepOutstanding ? this.adaptiveOutstanding! : options.maxOutstanding || adaptive.outstanding.max,
+      adaptive.outstanding) : null;
+    this.adaptiveQps = adaptive && adaptive.qps ?
+      clamp(keepQps ? this.adaptiveQps! : options.maxQps || adaptive.qps.max, adaptive.qps) : null;
+
+    this.maxOutstanding = options.maxOutstanding || Number.MAX_SAFE_INTEGER;
+    this.maxQueued = options.maxQueued || Number.MAX_SAFE_INTEGER;
+    const newRateWindow = (limit: RateLimit) =>
+      new RateWindow(limit, this.startList, this.last(), this.clock);
+    this.rateWindows = (options.rateLimits || []).map(newRateWindow);
+    this.qpsWindow = options.maxQps || this.adaptiveQps !== null ?
+      newRateWindow({maxStarts: options.maxQps || 0, windowMs: 1000}) : null;
+    if (this.qpsWindow) {
+      this.rateWindows.push(this.qpsWindow);
+    }
+    this.sharedWindows = options.shared ? this.rateWindows.slice() : [];
+    this.fallbackWindows = (options.shared && options.shared.fallback || []).map(newRateWindow);
+    this.rateWindows.push(...this.fallbackWindows);
+    if (this.rateWindows.length === 0) {
+      // Without any rate limits, started work is still tracked for one second, as if by an unlimited QPS window.
+      this.rateWindows.push(newRateWindow({maxStarts: Number.MAX_SAFE_INTEGER, windowMs: 1000}));
+    }
+    this.rateWindows.sort((a, b) => a.windowMs - b.windowMs);
+    this.applyAdaptiveLimits();
+    this.tokenBucket = options.tokenBucket ?
+      new TokenBucket(options.tokenBucket, this.clock, this.tokenBucket || undefined) : null;
+    this.rateLimiters = this.tokenBucket ? [...this.rateWindows, this.tokenBucket] : this.rateWindows;
+    this.applyFallbackLimits();
+  }
+
+  // Applies the fallback limits for shared rate limits while the store is unavailable, and lifts them otherwise.
+  private applyFallbackLimits() {
+    const fallback = this.options.shared && this.options.shared.fallback || [];
+    this.fallbackWindows.forEach((window, i) => {
+      window.maxStarts = this.storeAvailable ? Number.MAX_SAFE_INTEGER : fallback[i].maxStarts;
+    });
+  }
+
+  // Returns true if the work may be started as far as shared rate limits are concerned, requesting a reservation from
+  // the store if necessary.
+  private reserveStart(work: Work<any>): boolean {
+    const shared = this.options.shared;
+    if (!shared || work.reserved || this.clock.now() < this.storeRetryTime) {
+      return true;
+    }
+    if (!this.awaitingStore) {
+      this.awaitingStore = true;
+      this.requestReservation(work, shared);
+    }
+    return false;
+  }
+
+  private requestReservation(work: Work<any>, shared: SharedRateLimitOptions) {
+    const limits = this.sharedWindows.map(window => ({maxStarts: window.maxStarts, windowMs: window.windowMs}));
+    let timer: TimerHandle | null = null;
+    const signal = new WorkSignal();
+    const timeout = new Promise<number>((resolve, reject) => {
+      timer = this.clock.setTimer(() => {
+        reject(new Error('Timed out waiting for the store.'));
+        signal.abort();
+      }, shared.timeoutMs || 1000);
+    });
+    const onStoreResult = (available: boolean) => {
+      this.clock.clearTimer(timer!);
+      this.storeAvailable = available;
+      this.applyFallbackLimits();
+    };
+    Promise.race([Promise.resolve().then(() => shared.store.reserve(shared.key, limits, work.cost, signal)), timeout])
+      .then(delay => {
+        onStoreResult(true);
+        if (delay > 0) {
+          this.clock.setTimer(() => {
+            this.awaitingStore = false;
+            this.processWork();
+          }, delay);
+          return;
+        }
+        work.reserved = true;
+        this.awaitingStore = false;
+        this.processWork();
+      }, () => {
+        // Fall back to local limits, and try the store again later.
+        onStoreResult(false);
+        this.storeRetryTime = this.clock.now() + 1000;
+        this.awaitingStore = false;
+        this.processWork();
+      });
+  }
+
+  // Applies the current values of adaptive limits. Limits are whole numbers, and never less than 1.
+  private applyAdaptiveLimits() {
+    if (this.adaptiveOutstanding !== null) {
+      this.maxOutstanding = Math.max(1, Math.floor(this.adaptiveOutstanding));
+    }
+    if (this.adaptiveQps !== null) {
+      this.qpsWindow!.maxStarts = Math.max(1, Math.floor(this.adaptiveQps));
+    }
+  }
+
+  // Adapts limits based on the outcome of work. Returns true if the limits may have changed.
+  private adaptLimits(work: Work<any>, outcome: WorkOutcome<any>): boolean {
+    const adaptive = this.options.adaptive;
+    if (!adaptive) {
+      return false;
+    }
+
+    let signal: AdaptiveSignal;
+    try {
+      signal = adaptive.classify(outcome);
+    } catch (e) {
+      signal = 'ignore';
+    }
+
+    let adapt: (value: number, bounds: AdaptiveBounds) => number;
+    if (signal === 'ok') {
+      const increase = adaptive.increase || 1;
+      adapt = (value, bounds) => clamp(value + increase / value, bounds);
+    } else if (signal === 'overloaded' && work.startTime! > this.lastDecreaseTime) {
+      const decrease = adaptive.decrease || 0.5;
+      adapt = (value, bounds) => clamp(value * decrease, bounds);
+      this.lastDecreaseTime = this.clock.now();
+    } else {
+      return false;
+    }
+
+    if (this.adaptiveOutstanding !== null) {
+      this.adaptiveOutstanding = adapt(this.adaptiveOutstanding, adaptive.outstanding!);
+    }
+    if (this.adaptiveQps !== null) {
+      this.adaptiveQps = adapt(this.adaptiveQps, adaptive.qps!);
+    }
+    this.applyAdaptiveLimits();
+    return true;
+  }
+
+  // Updates all rate windows for expired work, and removes work that has expired from every window from the list.
   private purgeExpiredWork() {
-    while (this.hasExpiredWork()) {
-      const work = this.first();
-      // ASSERT(work.isExpired());
-      work.remove();
-      this.qpsCount -= 1;
+    this.rateWindows.forEach(window => window.purgeExpiredWork());
+    while (this.longestRateWindow().expiredPredecessor !== this.startList) {
+      const entry = this.first();
+      // ASSERT(entry has expired from every window, since shorter windows expire it sooner.);
+      entry.remove();
 
       // Pointer fixup if necessary.
-      if (this.readyWorkPredecessor === work) {
-        this.readyWorkPredecessor = work.prev;
-        // "Next ready work" remains the same, via this.readyWorkPredecessor.next.
-        // ASSERT(work.next === this.readyWorkPredecessor.next);
-      }
+      this.rateWindows.forEach(window => {
+        if (window.expiredPredecessor === entry) {
+          window.expiredPredecessor = entry.prev;
+        }
+      });
+    }
+  }
+
+  // The delay until no rate limiter holds any state from started work.
+  private idleDelay(): number {
+    const now = this.clock.now();
+    const quotaDelay = this.upstreamQuota ? this.upstreamQuota.resetAt - now : 0;
+    const upstreamDelay = Math.max(0, this.blockedUntil - now, quotaDelay);
+    return this.rateLimiters.reduce((delay, limiter) => Math.max(delay, limiter.idleDelay()), upstreamDelay);
+  }
+
+  // The delay until every rate limiter, and the upstream, has room for a work item of the given cost.
+  private rateLimitDelay(cost: number): number {
+    return this.rateLimiters
+      .filter(limiter => limiter.atLimit(cost))
+      .reduce((delay, limiter) => Math.max(delay, limiter.limitDelay(cost)), this.upstreamDelay(cost));
+  }
+
+  // The delay until the limits reported by the upstream allow a work item of the given cost to start. A quota that has
+  // reset no longer applies.
+  private upstreamDelay(cost: number): number {
+    const now = this.clock.now();
+    if (this.upstreamQuota && this.upstreamQuota.resetAt <= now) {
+      this.upstreamQuota = null;
     }
+    const quotaDelay = this.upstreamQuota && this.upstreamQuota.remaining < cost ? this.upstreamQuota.resetAt - now : 0;
+    return Math.max(0, this.blockedUntil - now, quotaDelay);
+  }
+
+  // Applies the limits that the upstream reported in the outcome of work, if any. Returns true if work may be able to
+  // start sooner as a result.
+  private applyUpstreamLimits(outcome: WorkOutcome<any>): boolean {
+    let limits: UpstreamLimits | undefined;
+    try {
+      limits = this.options.upstreamLimits && this.options.upstreamLimits(outcome);
+    } catch (e) {
+      limits = undefined;
+    }
+    if (!limits) {
+      return false;
+    }
+    if (limits.blockUntil !== undefined) {
+      this.blockedUntil = Math.max(this.blockedUntil, limits.blockUntil);
+    }
+    if (limits.quota) {
+      this.upstreamQuota = {...limits.quota};
+    }
+    return limits.quota !== undefined;
+  }
+
+  // The delay until every ancestor has room for the work: 0 if they all have room now, or null if an ancestor is
+  // blocked by something other than its rate limits (in which case it notifies this throttle once that changes).
+  private ancestorDelay(work: Work<any>): number | null {
+    return this.parent ? this.parent.childWorkDelay(work.cost, work.outstandingCost) : 0;
+  }
+
+  // The delay until this throttle and its ancestors have room for work from a child throttle, as for ancestorDelay.
+  // The child's work waits behind this throttle's own queued work.
+  private childWorkDelay(cost: number, outstandingCost: number): number | null {
+    this.purgeExpiredWork();
+    if (this.paused || this.hasReadyWork() || this.atMaxOutstanding(outstandingCost)) {
+      return null;
+    }
+    const delay = this.parent ? this.parent.childWorkDelay(cost, outstandingCost) : 0;
+    return delay === null ? null : Math.max(delay, this.rateLimitDelay(cost));
+  }
+
+  // Accounts for work started by a child throttle in this throttle and its ancestors. The start is tracked in the list,
+  // so that it expires from the rate windows as usual, and the work counts as outstanding until released.
+  private recordChildStart(cost: number, outstandingCost: number) {
+    this.onWorkItemEnqueued();
+    new StartEntry(this.clock.now(), cost, this.clock).insertAfter(this.last());
+    this.outstandingCount += 1;
+    this.outstandingUnits += outstandingCost;
+    this.rateLimiters.forEach(limiter => limiter.recordStart(cost));
+    if (this.parent) {
+      this.parent.recordChildStart(cost, outstandingCost);
+    }
+  }
+
+  // Releases the outstanding cost of work from a child throttle once it completes, in this throttle and its ancestors.
+  private releaseChildStart(outstandingCost: number) {
+    this.outstandingCount -= 1;
+    this.outstandingUnits -= outstandingCost;
+    this.onWorkItemSettled();
+    if (this.parent) {
+      this.parent.releaseChildStart(outstandingCost);
+    }
+    this.processWork();
   }
 
   // Executes all ready work items until/unless they must be throttled.
   private executeReadyWork() {
-    while (this.hasReadyWork() && this.canExecuteWork()) {
-      const work = this.readyWorkPredecessor.next;
-      this.readyWorkPredecessor = work;
+    this.admitWaitingWork();
+    while (this.hasReadyWork() && this.canExecuteWork() && this.reserveStart(this.nextWork())) {
+      const work = this.readyQueue.shift();
+      new StartEntry(this.clock.now(), work.cost, this.clock).insertAfter(this.last());
       this.outstandingCount += 1;
-      this.qpsCount += 1;
+      this.outstandingUnits += work.outstandingCost;
+      this.rateLimiters.forEach(limiter => limiter.recordStart(work.cost));
+      if (this.upstreamQuota) {
+        this.upstreamQuota.remaining -= work.cost;
+      }
+      if (this.parent) {
+        this.parent.recordChildStart(work.cost, work.outstandingCost);
+      }
+      this.startedCount += 1;
+      const queueWaitMs = this.clock.now() - work.queuedTime;
+      this.queueWaitSamples.add(queueWaitMs);
+      // Work that waited behind other held work was held by the same limit.
+      const waitReason = work.waitReason || (queueWaitMs > 0 && this.throttledReason) || undefined;
+      callHook(this.hooks.start, {
+        id: work.sequence, priority: work.priority, attempt: work.attempt(), queueWaitMs, waitReason,
+      });
 
       // Execute the work. Also update outstanding counts when the work completes, and trigger new work if necessary.
-      work.execute(() => {
-        const shouldTriggerWork = this.atMaxOutstanding();
-        if (--this.outstandingCount === 0 && !this.hasReadyWork()) {
-          // ASSERT(this.onLastWorkItemDrained);
-          this.onLastWorkItemDrained!();
+      work.execute(outcome => {
+        const runTimeMs = this.clock.now() - work.startTime!;
+        this.runTimeSamples.add(runTimeMs);
+        if (outcome.fulfilled) {
+          this.succeededCount += 1;
+        } else {
+          this.failedCount += 1;
+        }
+        callHook(this.hooks.settle, {
+          id: work.sequence, priority: work.priority, attempt: work.attempt(),
+          queueWaitMs, waitReason, runTimeMs, outcome,
+        });
+
+        const adapted = this.adaptLimits(work, outcome);
+        const upstreamChanged = this.applyUpstreamLimits(outcome);
+        // Children may be waiting for room in this throttle even when none of its own work is.
+        const shouldTriggerWork = adapted || upstreamChanged || this.children.size > 0 ||
+          this.hasReadyWork() && this.atMaxOutstanding(this.nextWork().outstandingCost);
+        let retryDelay: number | null = null;
+        if (!outcome.fulfilled && this.closeMode !== 'reject') {
+          retryDelay = work.retryDelay(outcome.error);
+          if (retryDelay !== null) {
+            this.scheduleRetry(work.nextAttempt(outcome.error), retryDelay);
+          }
+        }
+        // The work still counts against maxOutstanding while onSettled runs, so that no other work is started until
+        // the caller has reacted.
+        const finalOutcome = retryDelay === null ? work.finalOutcome(outcome) : null;
+        if (finalOutcome && work.onSettled) {
+          work.onSettled(finalOutcome);
+        }
+        this.outstandingCount -= 1;
+        this.outstandingUnits -= work.outstandingCost;
+        this.onWorkItemSettled();
+        if (this.parent) {
+          this.parent.releaseChildStart(work.outstandingCost);
         }
         if (shouldTriggerWork) {
           this.processWork();
         }
+        if (finalOutcome) {
+          work.settle(finalOutcome);
+        }
       });
+      this.admitWaitingWork();
+    }
+  }
+
+  // Moves waiting work into the queue while the queue has room.
+  private admitWaitingWork() {
+    while (this.hasWaitingWork() && !this.atMaxQueued()) {
+      const work = this.waitingList.next;
+      work.remove();
+      work.stopListeningForCancel();
+      work.listenForCancel(error => this.abortWork(work, error));
+      this.enqueueWork(work);
     }
   }
 
   // Ensure that the timer status correct, given the state of work in the throttle.
-  // A timer should be set iff work is waiting due to QPS throttling.
+  // A timer should be set iff work is waiting due to rate limits (of this throttle, or of its ancestors). The delay
+  // depends on the next work, so the timer is set again whenever that work could start sooner than it is due (e.g.,
+  // cheaper work became next). A timer that is due too soon merely processes work early, and is then set again.
   private updateTimer() {
-    if (this.hasReadyWork() && this.atMaxQps() && !this.atMaxOutstanding()) {
-      if (!this.expiringWorkTimer) {
-        // We can't assert !this.hasExpiredWork, since it changes to true with the passage of time.
-        this.expiringWorkTimer = global.setTimeout(() => {
+    const work = this.nextWork();
+    const ancestorDelay = this.hasReadyWork() ? this.ancestorDelay(work) : null;
+    if (this.hasReadyWork() && !this.paused && !this.atMaxOutstanding(work.outstandingCost) && ancestorDelay !== null &&
+        (this.atRateLimit(work.cost) || this.atUpstreamLimit(work.cost) || ancestorDelay > 0)) {
+      // We can't assert !this.hasExpiredWork, since it changes to true with the passage of time.
+      const delay = Math.max(ancestorDelay, this.rateLimitDelay(work.cost));
+      if (!this.expiringWorkTimer || this.clock.now() + delay < this.expiringWorkTime) {
+        this.clearTimer();
+        this.expiringWorkTime = this.clock.now() + delay;
+        this.expiringWorkTimer = this.clock.setTimer(() => {
           this.expiringWorkTimer = null;
+          this.expiringWorkTime = Infinity;
           this.processWork();
-        }, this.first().expirationDelay());
+        }, delay);
       }
     } else {
       // Cancel the waiting timer, since there's currently nothing to wait for.
-      if (this.expiringWorkTimer) {
-        global.clearTimeout(this.expiringWorkTimer);
-        this.expiringWorkTimer = null;
-      }
+      this.clearTimer();
+    }
+  }
+
+  private clearTimer() {
+    if (this.expiringWorkTimer) {
+      this.clock.clearTimer(this.expiringWorkTimer);
+      this.expiringWorkTimer = null;
+      this.expiringWorkTime = Infinity;
     }
   }
 
+  // Removes work that was aborted (or timed out) before being started. The work never counted against any limits, so
+  // only the list and the quiescence state need to be updated.
+  private abortWork(work: Work<any>, error: any) {
+    // ASSERT(work is in the ready queue).
+    this.readyQueue.remove(work);
+    this.rejectUnstartedWork(work, error, true);
+    this.onWorkItemSettled();
+    this.processWork();
+  }
+
+  // Settles work that was not started as rejected with the error, reporting the time it spent queued.
+  private rejectUnstartedWork(work: Work<any>, error: any, queued: boolean) {
+    work.abort(error);
+    const queueWaitMs = this.clock.now() - work.queuedTime;
+    if (queued) {
+      this.queueWaitSamples.add(queueWaitMs);
+    }
+    callHook<WorkEvent>(this.hooks.cancel, {
+      id: work.sequence, priority: work.priority, attempt: work.attempt(), queueWaitMs,
+      waitReason: work.waitReason || undefined, outcome: {fulfilled: false, error}, queued,
+    });
+  }
+
+  // Submits another attempt at failed work once the delay has passed. The work is aborted if its signal aborts in the
+  // meantime.
+  private scheduleRetry(work: Work<any>, delay: number) {
+    this.pendingRetries.add(work);
+    const timer = this.clock.setTimer(() => {
+      this.pendingRetries.delete(work);
+      work.stopListeningForCancel();
+      work.markQueued();
+      this.submitWork(work);
+    }, delay);
+    work.listenForCancel(error => {
+      this.clock.clearTimer(timer);
+      this.pendingRetries.delete(work);
+      this.rejectUnstartedWork(work, error, false);
+      this.onWorkItemSettled();
+    });
+  }
+
+  // Adds work to the ready queue.
+  private enqueueWork(work: Work<any>) {
+    this.readyQueue.push(work);
+    callHook(this.hooks.enqueue, {id: work.sequence, priority: work.priority, attempt: work.attempt()});
+    if (work.onAccepted) {
+      work.onAccepted();
+      work.onAccepted = null;
+    }
+  }
+
+  // Adds work to the throttle and processes it, unless it has already been aborted.
+  private submitWork(work: Work<any>) {
+    this.onWorkItemEnqueued();
+    if (!work.listenForCancel(error => this.abortWork(work, error))) {
+      this.rejectUnstartedWork(work, new AbortError(), false);
+      this.onWorkItemSettled();
+      return;
+    }
+    this.enqueueWork(work);
+    this.processWork();
+  }
+
+  // Submits newly provided work, applying the overflow policy if the queue is full.
+  private provideWork(work: Work<any>) {
+    if (this.closeMode) {
+      this.rejectUnstartedWork(work, new ThrottleClosedError(), false);
+      return;
+    }
+    work.markQueued();
+    if (this.atMaxQueued()) {
+      // Queued work may have become ready to start since work was last processed.
+      this.processWork();
+    }
+    if (!this.atMaxQueued()) {
+      this.submitWork(work);
+      return;
+    }
+
+    if (this.options.overflow === 'dropOldest' && this.dropOldestWork(work.priority)) {
+      this.submitWork(work);
+    } else if (this.options.overflow === 'wait') {
+      this.waitForQueue(work);
+    } else {
+      this.rejectUnstartedWork(work, new QueueOverflowError(), false);
+    }
+  }
+
+  // Drops the oldest queued work of the lowest priority, unless that priority is higher than the given priority.
+  // Returns true if work was dropped.
+  private dropOldestWork(priority: number): boolean {
+    // The oldest work of the lowest priority is the work that is due to start first among that priority. (With flows,
+    // this is the first work of the flow that is due first.)
+    const work = this.readyQueue.peekLowest()!;
+    if (priority < work.priority) {
+      return false;
+    }
+    this.readyQueue.remove(work);
+    const error = new QueueOverflowError('Work was dropped from the queue to make room for newer work.');
+    this.rejectUnstartedWork(work, error, true);
+    return true;
+  }
+
+  // Holds work in the waiting list until the queue has room.
+  private waitForQueue(work: Work<any>) {
+    this.onWorkItemEnqueued();
+    const waiting = work.listenForCancel(error => {
+      work.remove();
+      this.rejectUnstartedWork(work, error, false);
+      this.onWorkItemSettled();
+    });
+    if (waiting) {
+      work.insertAfter(this.waitingList.prev);
+    } else {
+      this.rejectUnstartedWork(work, new AbortError(), false);
+      this.onWorkItemSettled();
+    }
+  }
+
+  // Creates work for a call to the throttle.
+  private createWork<T>(startWork: StartWork<T>, options: CallThrottledOptions): Work<T> {
+    const retry = options.retry === false ? false :
+      this.options.retry || options.retry ? {...this.options.retry, ...options.retry} : false;
+    const work = new Work<T>(startWork, {
+      ...options,
+      retry,
+      queueTimeoutMs: options.queueTimeoutMs !== undefined ? options.queueTimeoutMs : this.options.queueTimeoutMs,
+      executionTimeoutMs:
+        options.executionTimeoutMs !== undefined ? options.executionTimeoutMs : this.options.executionTimeoutMs,
+    }, this.nextSequence++, this.clock);
+    return work;
+  }
+
   // The main processing method for the throttle, which must be called in order for work to be executed. It can be
   // called safely at any time (it's idempotent-ish). This method handles executing all available work, and ensuring
   // that if it must be throttled it will be executed at the next available opportunity.
@@ -189,48 +1812,355 @@ export class AsyncThrottle {
     this.purgeExpiredWork();
     this.executeReadyWork();
     this.updateTimer();
+    this.updateThrottledReason();
+    this.children.forEach(child => child.processWork());
+  }
+
+  // Tracks the limit that is preventing queued work from starting, and reports when work becomes throttled.
+  private updateThrottledReason() {
+    let reason: ThrottledReason | null = null;
+    if (this.hasReadyWork() && !this.paused) {
+      const work = this.nextWork();
+      reason = this.atMaxOutstanding(work.outstandingCost) ? 'outstanding' :
+        this.atRateLimit(work.cost) ? 'rate' : this.atUpstreamLimit(work.cost) ? 'upstream' :
+        this.ancestorDelay(work) !== 0 ? 'parent' : null;
+    }
+    if (reason) {
+      this.nextWork().waitReason = reason;
+    }
+    if (reason && reason !== this.throttledReason) {
+      callHook(this.hooks.throttled, {reason, queued: this.readyQueue.size});
+    }
+    this.throttledReason = reason;
   }
 
   // The main entry point to the throttle. Receives a function that will generate a promise, and executes it according
   // to the throttling policy currently being used. Returns a promise that is immediately available, and will be
   // settled with the value (or error) of the promise generated by the call to startWork.
-  callThrottled<T>(startWork: () => Promise<T>): Promise<T> {
-    const work = new Work<T>(startWork);
-    work.insertAfter(this.last());
-    this.onWorkItemEnqueued();
-    this.processWork();
+  callThrottled<T>(startWork: StartWork<T>, options: CallThrottledOptions = {}): Promise<T> {
+    if (options.dedupeKey !== undefined) {
+      return this.callDeduped(startWork, options, options.dedupeKey);
+    }
+    const work = this.createWork(startWork, options);
+    this.provideWork(work);
     return work.whenComplete;
   }
 
+  // Joins the work for the dedupeKey, providing it first if there is no such work. Work whose callers have all aborted
+  // is not joined, since it is being removed.
+  private callDeduped<T>(startWork: StartWork<T>, options: CallThrottledOptions, key: string): Promise<T> {
+    let shared = this.dedupedWork.get(key);
+    if (!shared || shared.signal.aborted) {
+      const signal = new SharedSignal();
+      const work = this.createWork(startWork, {...options, signal});
+      const entry = {whenComplete: work.whenComplete, signal};
+      this.dedupedWork.set(key, entry);
+      const forget = () => {
+        if (this.dedupedWork.get(key) === entry) {
+          this.dedupedWork.delete(key);
+        }
+      };
+      work.whenComplete.then(() => {
+        if (options.dedupeTtlMs) {
+          this.clock.setTimer(forget, options.dedupeTtlMs);
+        } else {
+          forget();
+        }
+      }, forget);
+      shared = entry;
+      this.provideWork(work);
+    }
+    return shared.signal.join(shared.whenComplete, options.signal);
+  }
+
+  // Like callThrottled, but returns a promise that is resolved once the work has been accepted into the queue. This is
+  // useful with the 'wait' overflow policy, to stop producing work until the throttle can accept it. The promise is
+  // rejected if the work is not accepted (e.g., due to the 'reject' overflow policy, or being aborted while waiting).
+  enqueueThrottled<T>(startWork: StartWork<T>, options: CallThrottledOptions = {}): Promise<AcceptedWork<T>> {
+    const work = this.createWork(startWork, options);
+    return new Promise<AcceptedWork<T>>((resolve, reject) => {
+      work.onAccepted = () => resolve({whenComplete: work.whenComplete});
+      // This has no effect if the work has already been accepted.
+      work.whenComplete.catch(reject);
+      this.provideWork(work);
+    });
+  }
+
+  // Returns a function that calls fn through the throttle, with the same arguments (and this) and the same result.
+  wrap<F extends (...args: any[]) => Promise<any>>(fn: F, options: CallThrottledOptions = {}): F {
+    const throttle = this;
+    return function(this: any, ...args: any[]) {
+      return throttle.callThrottled(() => fn.apply(this, args), options);
+    } as F;
+  }
+
+  // The number of work items that are queued: provided to the throttle, but not yet started. Work that is waiting for
+  // the queue to have room is not included.
+  get queuedCount(): number {
+    return this.readyQueue.size;
+  }
+
   whenDrained(): Promise<void> {
     return this.whenQuiescent ? this.whenQuiescent : Promise.resolve();
   }
 
-  static callAllThrottled<T>(startWorkArray: Array<() => Promise<T>>, options: AsyncThrottleOptions): Promise<T[]> {
-    return new Promise<T[]>((resolve, reject) => {
-      let rejected = false;
-      const results = new Array<T>(startWorkArray.length);
-      let outstandingResultCount: number = startWorkArray.length;
-      const throttle = new AsyncThrottle(options);
-      for (let i = 0; i < startWorkArray.length; i++) {
-        throttle
-          .callThrottled(startWorkArray[i])
-          .then(value => {
-            results[i] = value;
-            if (--outstandingResultCount === 0) {
-              // All promises fulfilled, so resolve now.
-              resolve(results);
-            }
-          })
-          .catch(error => {
-            if (!rejected) {
-              // This is the first error, so reject now.
-              // Don't decrement the count. Thus the fulfill path will never execute.
-              rejected = true;
-              reject(error);
+  // Returns a snapshot of the throttle's state and history.
+  getStats(): AsyncThrottleStats {
+    this.purgeExpiredWork();
+    return {
+      queued: this.readyQueue.size,
+      running: this.outstandingCount,
+      windows: this.rateWindows.map(window => ({
+        windowMs: window.windowMs,
+        maxStarts: window.maxStarts === Number.MAX_SAFE_INTEGER ? undefined : window.maxStarts,
+        starts: window.count,
+      })),
+      started: this.startedCount,
+      succeeded: this.succeededCount,
+      failed: this.failedCount,
+      queueWaitMs: this.queueWaitSamples.distribution(),
+      runTimeMs: this.runTimeSamples.distribution(),
+    };
+  }
+
+  // Returns the current throttle parameters.
+  getOptions(): AsyncThrottleOptions {
+    return {...this.options};
+  }
+
+  // Returns the limits currently in effect. These differ from the options when limits are adaptive.
+  getEffectiveLimits(): EffectiveLimits {
+    return {
+      maxOutstanding: this.maxOutstanding === Number.MAX_SAFE_INTEGER ? undefined : this.maxOutstanding,
+      maxQps: this.qpsWindow ? this.qpsWindow.maxStarts : undefined,
+    };
+  }
+
+  // Changes throttle parameters on a live throttle, keeping all queued work. Options that are not provided keep their
+  // current values; an option that is provided as undefined is removed. Raising a limit starts queued work immediately
+  // if possible, while lowering a limit never affects work that is already running.
+  setOptions(options: AsyncThrottleOptions) {
+    this.configure({...this.options, ...options});
+    // The expiring work timer may no longer be needed, or may be needed at a different time.
+    this.clearTimer();
+    this.processWork();
+  }
+
+  // Starts no work until the given time (as from the throttle's clock), e.g., when the upstream responds with
+  // Retry-After. Queued work is held, and started once the time passes. A block is only ever extended by later calls.
+  blockUntil(time: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, time);
+    this.processWork();
+  }
+
+  // Records the quota that the upstream reports as remaining until it resets, e.g., from X-RateLimit-Remaining and
+  // X-RateLimit-Reset headers. The quota replaces any previous report, including its reset time, so held work waits for
+  // the latest reset. Work started from now on uses it up, and once it is used up, queued work is held until the reset.
+  // The throttle's own limits continue to apply.
+  reportQuota(quota: UpstreamQuota) {
+    this.upstreamQuota = {...quota};
+    this.processWork();
+  }
+
+  // Stops starting work, without affecting queued or running work, until resume is called. Rate limits continue to
+  // expire while paused.
+  pause() {
+    this.paused = true;
+    this.processWork();
+  }
+
+  resume() {
+    this.paused = false;
+    this.processWork();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Closes the throttle: work provided from now on is rejected with a ThrottleClosedError, and work that was already
+  // provided is handled according to the mode (see CloseOptions). Returns a promise that is resolved once all work is
+  // complete, as for whenDrained. A paused throttle must be resumed in order to drain.
+  close(options: CloseOptions = {}): Promise<void> {
+    if (this.closeMode !== 'reject') {
+      this.closeMode = options.mode || 'drain';
+    }
+    if (this.closeMode === 'reject') {
+      // Waiting work is rejected first, so that none of it is admitted to the queue as queued work is rejected.
+      const unstarted: Array<Work<any>> = [];
+      for (let work = this.waitingList.next; work !== this.waitingList; work = work.next) {
+        unstarted.push(work);
+      }
+      this.readyQueue.forEach(work => unstarted.push(work));
+      this.pendingRetries.forEach(work => unstarted.push(work));
+      unstarted.forEach(work => work.cancel(new ThrottleClosedError('Work was rejected because the throttle closed.')));
+    }
+    return this.whenDrained();
+  }
+
+  isClosed(): boolean {
+    return this.closeMode !== null;
+  }
+
+  // Returns true if the throttle holds no state at all: no work is queued or running, and no started work still counts
+  // against any rate limit. An idle throttle can be discarded and replaced by a new one without affecting throttling.
+  isIdle(): boolean {
+    this.purgeExpiredWork();
+    return this.outstandingCount === 0 && this.first() === this.startList &&
+      this.rateLimiters.every(limiter => limiter.idleDelay() === 0);
+  }
+
+  // Returns a promise that is resolved at the next moment when the throttle is idle (see isIdle). Unlike whenDrained,
+  // this waits for started work to leave the rate windows after it completes.
+  whenIdle(): Promise<void> {
+    return this.whenDrained().then(() => {
+      if (this.isIdle()) {
+        return;
+      }
+      if (this.whenQuiescent) {
+        // More work was provided in the meantime.
+        return this.whenIdle();
+      }
+      return new Promise<void>(resolve => {
+        this.clock.setTimer(resolve, this.idleDelay());
+      }).then(() => this.whenIdle());
+    });
+  }
+
+  // Provides each work item to a throttle (or a new throttle with the given options), reporting each outcome to
+  // onSettled until it returns true. At that point, work that has not been started is removed from the throttle, and
+  // running work is aborted if requested.
+  private static callEachThrottled<T>(
+    startWorkArray: Array<StartWork<T>>,
+    throttle: AsyncThrottle | AsyncThrottleOptions,
+    options: CallAllOptions,
+    onSettled: (index: number, outcome: WorkOutcome<T>) => boolean,
+  ) {
+    const throttleToUse = throttle instanceof AsyncThrottle ? throttle : new AsyncThrottle(throttle);
+    const signals = startWorkArray.map(() => new WorkSignal());
+    const started = startWorkArray.map(() => false);
+    const settled = startWorkArray.map(() => false);
+    let stopped = false;
+    startWorkArray.forEach((startWork, i) => {
+      const onOutcome = (outcome: WorkOutcome<T>) => {
+        if (settled[i]) {
+          return;
+        }
+        settled[i] = true;
+        if (!stopped && onSettled(i, outcome)) {
+          stopped = true;
+          signals.forEach((signal, j) => {
+            if (options.abortRunning || !started[j]) {
+              signal.abort();
             }
           });
+        }
+      };
+      const work = throttleToUse.createWork(signal => {
+        started[i] = true;
+        return startWork(signal);
+      }, {signal: signals[i]});
+      // Completed work is reported synchronously, so that once stopped, the throttle doesn't start the next work in its
+      // place. Work that is settled without being started is reported through its promise.
+      work.onSettled = onOutcome;
+      work.whenComplete.then(
+        value => onOutcome({fulfilled: true, value}),
+        error => onOutcome({fulfilled: false, error}));
+      throttleToUse.provideWork(work);
+    });
+  }
+
+  // Like Promise.all: resolves with the results of all work, in order, or rejects with the first error. Once rejected,
+  // no more of the work is started.
+  static callAllThrottled<T>(
+    startWorkArray: Array<StartWork<T>>,
+    throttle: AsyncThrottle | AsyncThrottleOptions,
+    options: CallAllOptions = {},
+  ): Promise<T[]> {
+    return new Promise<T[]>((resolve, reject) => {
+      const results = new Array<T>(startWorkArray.length);
+      let outstandingResultCount = startWorkArray.length;
+      if (outstandingResultCount === 0) {
+        resolve(results);
+      }
+      AsyncThrottle.callEachThrottled(startWorkArray, throttle, options, (i, outcome) => {
+        if (!outcome.fulfilled) {
+          reject(outcome.error);
+          return true;
+        }
+        results[i] = outcome.value;
+        if (--outstandingResultCount === 0) {
+          resolve(results);
+        }
+        return false;
+      });
+    });
+  }
+
+  // Like Promise.allSettled: resolves with the outcomes of all work, in order, once all work is complete.
+  static callAllSettledThrottled<T>(
+    startWorkArray: Array<StartWork<T>>,
+    throttle: AsyncThrottle | AsyncThrottleOptions,
+  ): Promise<Array<WorkOutcome<T>>> {
+    return new Promise<Array<WorkOutcome<T>>>(resolve => {
+      const outcomes = new Array<WorkOutcome<T>>(startWorkArray.length);
+      let outstandingResultCount = startWorkArray.length;
+      if (outstandingResultCount === 0) {
+        resolve(outcomes);
+      }
+      AsyncThrottle.callEachThrottled(startWorkArray, throttle, {}, (i, outcome) => {
+        outcomes[i] = outcome;
+        if (--outstandingResultCount === 0) {
+          resolve(outcomes);
+        }
+        return false;
+      });
+    });
+  }
+
+  // Like Promise.any: resolves with the result of the first work to succeed, or rejects with an AllFailedError if all
+  // work fails. Once resolved, no more of the work is started.
+  static callAnyThrottled<T>(
+    startWorkArray: Array<StartWork<T>>,
+    throttle: AsyncThrottle | AsyncThrottleOptions,
+    options: CallAllOptions = {},
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const errors = new Array<any>(startWorkArray.length);
+      let outstandingResultCount = startWorkArray.length;
+      if (outstandingResultCount === 0) {
+        reject(new AllFailedError(errors));
       }
+      AsyncThrottle.callEachThrottled(startWorkArray, throttle, options, (i, outcome) => {
+        if (outcome.fulfilled) {
+          resolve(outcome.value);
+          return true;
+        }
+        errors[i] = outcome.error;
+        if (--outstandingResultCount === 0) {
+          reject(new AllFailedError(errors));
+        }
+        return false;
+      });
+    });
+  }
+
+  // Like Promise.race: settles with the outcome of the first work to complete. Once settled, no more of the work is
+  // started.
+  static callRaceThrottled<T>(
+    startWorkArray: Array<StartWork<T>>,
+    throttle: AsyncThrottle | AsyncThrottleOptions,
+    options: CallAllOptions = {},
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      AsyncThrottle.callEachThrottled(startWorkArray, throttle, options, (i, outcome) => {
+        if (outcome.fulfilled) {
+          resolve(outcome.value);
+        } else {
+          reject(outcome.error);
+        }
+        return true;
+      });
     });
   }
 }
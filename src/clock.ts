@@ -0,0 +1,105 @@
+// An opaque handle for a timer set by a clock.
+export type TimerHandle = any;
+
+// The source of time and timers for a throttle. Providing a different clock allows throttles to run in virtual time,
+// e.g., for tests and simulations.
+export interface Clock {
+  // The current time, in milliseconds.
+  now(): number;
+  setTimer(callback: () => void, delayMs: number): TimerHandle;
+  clearTimer(timer: TimerHandle): void;
+}
+
+// The default clock, using the runtime's Date.now, setTimeout and clearTimeout. These are looked up on each call, so
+// fake timers installed after the clock is created (e.g., by lolex) are respected.
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimer: timer => clearTimeout(timer),
+};
+
+// A clock whose time only moves when it is advanced, for deterministic tests and simulations. Timers run in the order
+// they are due (and in the order they were set, if due at the same time), with the clock's time set to when each is
+// due.
+export class ManualClock implements Clock {
+  private time: number;
+  // The timers that have not yet run, ordered by the time they are due, then by id.
+  private timers: Array<{id: number, dueTime: number, callback: () => void}>;
+  private nextId: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+    this.timers = [];
+    this.nextId = 1;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimer(callback: () => void, delayMs: number): TimerHandle {
+    const timer = {id: this.nextId++, dueTime: this.time + Math.max(0, delayMs), callback};
+    let index = this.timers.length;
+    while (index > 0 && this.timers[index - 1].dueTime > timer.dueTime) {
+      index -= 1;
+    }
+    this.timers.splice(index, 0, timer);
+    return timer.id;
+  }
+
+  clearTimer(timer: TimerHandle) {
+    this.timers = this.timers.filter(t => t.id !== timer);
+  }
+
+  // The number of timers that have not yet run.
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  // Advances the time, running each timer that becomes due (including timers set by other timers). Timers run
+  // synchronously, so work completed by them is only processed by the throttle once promise callbacks run, after this
+  // returns. Use advanceAsync for simulations that depend on work completing.
+  advance(delayMs: number) {
+    const endTime = this.time + delayMs;
+    while (this.timers.length > 0 && this.timers[0].dueTime <= endTime) {
+      const timer = this.timers.shift()!;
+      this.time = timer.dueTime;
+      timer.callback();
+    }
+    this.time = endTime;
+  }
+
+  // Like advance, but lets pending promise callbacks run before each timer and once the time is reached, so that work
+  // completed at one time is processed (e.g., releasing its slot for other work) before the clock moves on. Resolves
+  // once the time is reached and no timer is due. Only work that completes through promises and this clock's timers
+  // is simulated, and the runtime's own timers must not be faked (e.g., by lolex), since they are used to wait for
+  // promise callbacks.
+  advanceAsync(delayMs: number): Promise<void> {
+    const endTime = this.time + delayMs;
+    const step = (): Promise<void> => yieldToPromises().then(() => {
+      if (this.timers.length > 0 && this.timers[0].dueTime <= endTime) {
+        const timer = this.timers.shift()!;
+        this.time = timer.dueTime;
+        timer.callback();
+        return step();
+      }
+      if (this.time < endTime) {
+        this.time = endTime;
+        return step();
+      }
+    });
+    return step();
+  }
+}
+
+// Resolves once all pending promise callbacks have run (including callbacks that they schedule), by waiting for a task
+// of the runtime's event loop.
+function yieldToPromises(): Promise<void> {
+  return new Promise<void>(resolve => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(resolve);
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
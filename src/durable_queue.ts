@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import {
+  AbortSignalLike,
+  AsyncThrottle,
+  AsyncThrottleOptions,
+  CallThrottledOptions,
+  WorkOutcome,
+} from './async_throttle';
+import {call} from './promisify';
+
+// Performs a job, given its payload.
+export type JobHandler = (payload: any, signal?: AbortSignalLike) => Promise<any>;
+
+// The options for a job, which are journaled with it. See CallThrottledOptions.
+export type JobOptions = Pick<CallThrottledOptions, 'priority' | 'cost' | 'outstandingCost' | 'flow' | 'weight'>;
+
+// A job as recorded in the journal. The payload must survive JSON serialization.
+export interface Job {
+  id: number;
+  handler: string;
+  payload: any;
+  options: JobOptions;
+}
+
+export interface DurableQueueOptions {
+  // The handlers that perform jobs, by name. Every handler named by an unfinished job in the journal must be provided.
+  handlers: {[name: string]: JobHandler};
+  // Called with the outcome of every job once it is settled, including jobs recovered from the journal (whose promises
+  // have no other caller). Errors thrown by this callback are ignored.
+  onSettled?: (job: Job, outcome: WorkOutcome<any>) => void;
+}
+
+// A line of the journal.
+type JournalRecord =
+  {type: 'enqueued', job: Job} |
+  {type: 'started', id: number} |
+  {type: 'settled', id: number, fulfilled: boolean};
+
+// A queue of jobs that survives restarts of the process. Each job is a named handler with a serializable payload, and
+// is run through a throttle. Every transition of a job (enqueued, started, settled) is appended to a journal file, and
+// opening the queue replays the jobs that were enqueued but not settled. A job that was running when the process
+// stopped is run again, so jobs are run at least once, and handlers should be idempotent.
+export class DurableQueue {
+  private readonly path: string;
+  private readonly throttle: AsyncThrottle;
+  private readonly handlers: {[name: string]: JobHandler};
+  private readonly onSettled?: (job: Job, outcome: WorkOutcome<any>) => void;
+  // The jobs that have been enqueued but not settled, by id, and the id for the next job.
+  private readonly unfinished: Map<number, Job>;
+  private nextId: number;
+  // The number of jobs that have been submitted or recovered, and whose outcome has not yet been journaled.
+  private runningCount: number;
+  // The latest write to the journal. Writes are made one at a time, in order.
+  private writes: Promise<void>;
+
+  // Use DurableQueue.open, which recovers the jobs in the journal.
+  private constructor(path: string, throttle: AsyncThrottle | AsyncThrottleOptions, options: DurableQueueOptions) {
+    this.path = path;
+    this.throttle = throttle instanceof AsyncThrottle ? throttle : new AsyncThrottle(throttle);
+    this.handlers = options.handlers;
+    this.onSettled = options.onSettled;
+    this.unfinished = new Map<number, Job>();
+    this.nextId = 1;
+    this.runningCount = 0;
+    this.writes = Promise.resolve();
+  }
+
+  // Opens the queue journaled at the path (creating the journal if it does not exist), running jobs through the given
+  // throttle (or a new throttle with the given options). Jobs that were enqueued but not settled are compacted into a
+  // new journal, and provided to the throttle again. Rejects if the journal names a handler that is not provided.
+  static open(path: string, throttle: AsyncThrottle | AsyncThrottleOptions,
+              options: DurableQueueOptions): Promise<DurableQueue> {
+    const queue = new DurableQueue(path, throttle, options);
+    return queue.recover().then(() => queue);
+  }
+
+  // Adds a job, returning a promise for its result. The job is provided to the throttle once it has been journaled.
+  submit(handler: string, payload: any, options: JobOptions = {}): Promise<any> {
+    if (!this.handlers[handler]) {
+      return Promise.reject(new Error(`No handler is provided for '${handler}'.`));
+    }
+    const job = {id: this.nextId++, handler, payload, options};
+    this.unfinished.set(job.id, job);
+    this.runningCount += 1;
+    return this.append({type: 'enqueued', job}).then(() => {
+      this.runningCount -= 1;
+      return this.run(job);
+    }, error => {
+      this.runningCount -= 1;
+      this.unfinished.delete(job.id);
+      return Promise.reject(error);
+    });
+  }
+
+  // Rewrites the journal to contain only the jobs that are not settled. The journal otherwise grows with every job.
+  compact(): Promise<void> {
+    return this.write(() => {
+      const tempPath = `${this.path}.tmp`;
+      const lines = Array.from(this.unfinished.values()).map(job => serialize({type: 'enqueued', job}));
+      return call<void>(callback => fs.writeFile(tempPath, lines.join(''), callback))
+        .then(() => call<void>(callback => fs.rename(tempPath, this.path, callback)));
+    });
+  }
+
+  // Returns a promise that is resolved once all jobs are settled and journaled.
+  whenDrained(): Promise<void> {
+    return this.throttle.whenDrained().then(() => this.writes).then(() => {
+      if (this.runningCount > 0) {
+        // More jobs were submitted in the meantime.
+        return this.whenDrained();
+      }
+    });
+  }
+
+  // The jobs that have been enqueued but not settled.
+  get unfinishedJobs(): Job[] {
+    return Array.from(this.unfinished.values());
+  }
+
+  // Reads the journal, compacts it, and runs the unfinished jobs. A partial last line (from a crash while appending) is
+  // ignored.
+  private recover(): Promise<void> {
+    return call<string>(callback => fs.readFile(this.path, 'utf8', callback))
+      .catch(error => error.code === 'ENOENT' ? Promise.resolve('') : Promise.reject(error))
+      .then(contents => {
+        contents.split('\n').forEach(line => {
+          let record: JournalRecord;
+          try {
+            record = JSON.parse(line);
+          } catch (e) {
+            return;
+          }
+          if (record.type === 'enqueued') {
+            this.unfinished.set(record.job.id, record.job);
+            this.nextId = Math.max(this.nextId, record.job.id + 1);
+          } else if (record.type === 'settled') {
+            this.unfinished.delete(record.id);
+          }
+        });
+        const missing = this.unfinishedJobs.filter(job => !this.handlers[job.handler]);
+        if (missing.length > 0) {
+          throw new Error(`No handler is provided for '${missing[0].handler}', which has unfinished jobs.`);
+        }
+        return this.compact();
+      })
+      .then(() => {
+        // Outcomes of recovered jobs are reported through onSettled.
+        this.unfinishedJobs.forEach(job => this.run(job).catch(() => {}));
+      });
+  }
+
+  // Runs a journaled job through the throttle, journaling its start and its outcome. The job's promise is settled once
+  // its outcome is journaled, so that a job whose caller has seen its outcome is never run again. If the outcome cannot
+  // be journaled, the promise is rejected with the error from the journal, and the job runs again after a restart. A
+  // job that the throttle rejects before its handler runs (e.g., because the throttle closed) has no outcome, so its
+  // promise is rejected with the throttle's error, and it stays unfinished, to run after a restart.
+  private run(job: Job): Promise<any> {
+    const handler = this.handlers[job.handler];
+    let started = false;
+    const settle = (outcome: WorkOutcome<any>) =>
+      this.append({type: 'settled', id: job.id, fulfilled: outcome.fulfilled}).then(() => {
+        this.runningCount -= 1;
+        this.unfinished.delete(job.id);
+        if (this.onSettled) {
+          try {
+            this.onSettled(job, outcome);
+          } catch (e) {
+            // Ignored.
+          }
+        }
+        return outcome.fulfilled ? outcome.value : Promise.reject(outcome.error);
+      }, error => {
+        this.runningCount -= 1;
+        return Promise.reject(error);
+      });
+    this.runningCount += 1;
+    return this.throttle
+      .callThrottled(signal => {
+        started = true;
+        // The start is only journaled for diagnosis, so a failure to journal it does not affect the job.
+        this.append({type: 'started', id: job.id}).catch(() => {});
+        return handler(job.payload, signal);
+      }, job.options)
+      .then(value => settle({fulfilled: true, value}), error => {
+        if (!started) {
+          this.runningCount -= 1;
+          return Promise.reject(error);
+        }
+        return settle({fulfilled: false, error});
+      });
+  }
+
+  private append(record: JournalRecord): Promise<void> {
+    return this.write(() => call<void>(callback => fs.appendFile(this.path, serialize(record), callback)));
+  }
+
+  // Makes a write to the journal after all previous writes, whether or not they failed.
+  private write(operation: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+}
+
+function serialize(record: JournalRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
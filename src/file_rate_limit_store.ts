@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import {AbortError, AbortSignalLike, RateLimit, RateLimitStore} from './async_throttle';
+import {call} from './promisify';
+import {reserveStart, StartRecord} from './start_log';
+
+export interface FileRateLimitStoreOptions {
+  // The age after which a lock is assumed to have been abandoned by a crashed process, and is broken (default 5000ms).
+  lockTimeoutMs?: number;
+}
+
+// A store that keeps the accounting in a JSON file, for throttles in processes on the same machine. Access to the file
+// is serialized by a lock file (the path with '.lock' appended), which is created exclusively. A reservation that the
+// throttle has stopped waiting for is abandoned without recording a start, unless it was already recorded.
+export class FileRateLimitStore implements RateLimitStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+
+  constructor(path: string, options: FileRateLimitStoreOptions = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs || 5000;
+  }
+
+  reserve(key: string, limits: RateLimit[], cost: number, signal?: AbortSignalLike): Promise<number> {
+    return this.withLock(signal, () => this.read().then(logs => {
+      if (signal && signal.aborted) {
+        throw new AbortError('The reservation was abandoned.');
+      }
+      const log = logs[key] || [];
+      const delay = reserveStart(log, limits, cost, Date.now());
+      if (log.length > 0) {
+        logs[key] = log;
+      } else {
+        delete logs[key];
+      }
+      return this.write(logs).then(() => delay);
+    }));
+  }
+
+  // Runs an operation while holding the lock.
+  private withLock<T>(signal: AbortSignalLike | undefined, operation: () => Promise<T>): Promise<T> {
+    return this.lock(signal).then(() => operation().then(result => {
+      return this.unlock().then(() => result);
+    }, error => {
+      return this.unlock().then(() => Promise.reject(error));
+    }));
+  }
+
+  // Acquires the lock, retrying until it is released or found to be abandoned. Stops retrying once the signal aborts.
+  private lock(signal?: AbortSignalLike): Promise<void> {
+    if (signal && signal.aborted) {
+      return Promise.reject(new AbortError('The reservation was abandoned.'));
+    }
+    return call<number>(callback => fs.open(this.lockPath, 'wx', callback))
+      .then(fd => call<void>(callback => fs.close(fd, callback)))
+      .catch(error => {
+        if (error.code !== 'EEXIST') {
+          return Promise.reject(error);
+        }
+        return call<fs.Stats>(callback => fs.stat(this.lockPath, callback))
+          .then(stats => {
+            if (Date.now() - stats.mtime.getTime() > this.lockTimeoutMs) {
+              return this.breakLock(stats);
+            }
+            return new Promise<void>(resolve => setTimeout(resolve, 5));
+          }, () => {
+            // The lock was released in the meantime.
+          })
+          .then(() => this.lock(signal));
+      });
+  }
+
+  // Removes an abandoned lock, given its stats. Another process may have broken the same lock and acquired a new one
+  // since the stats were read, so the lock is first renamed aside (which only one process can do), and is then removed
+  // only if it is the abandoned lock. A newer lock is put back, unless the lock was acquired again in the meantime.
+  private breakLock(stale: fs.Stats): Promise<void> {
+    const asidePath = `${this.lockPath}.${process.pid}.${Math.random().toString(36).slice(2)}`;
+    return call<void>(callback => fs.rename(this.lockPath, asidePath, callback))
+      .then(() => call<fs.Stats>(callback => fs.stat(asidePath, callback)))
+      .then(stats => {
+        if (stats.ino === stale.ino && stats.mtime.getTime() === stale.mtime.getTime()) {
+          return;
+        }
+        return call<void>(callback => fs.link(asidePath, this.lockPath, callback)).catch(() => {});
+      })
+      .then(() => call<void>(callback => fs.unlink(asidePath, callback)), () => {
+        // The lock was released or broken in the meantime.
+      });
+  }
+
+  private unlock(): Promise<void> {
+    return call<void>(callback => fs.unlink(this.lockPath, callback));
+  }
+
+  // Reads the logs for all keys. A missing (or corrupt) file holds no starts.
+  private read(): Promise<{[key: string]: StartRecord[]}> {
+    return call<string>(callback => fs.readFile(this.path, 'utf8', callback))
+      .then(contents => JSON.parse(contents))
+      .catch(error => {
+        if (error.code && error.code !== 'ENOENT') {
+          return Promise.reject(error);
+        }
+        return {};
+      });
+  }
+
+  // Replaces the file, so that a crash while writing cannot leave a partial file.
+  private write(logs: {[key: string]: StartRecord[]}): Promise<void> {
+    const tempPath = `${this.path}.tmp`;
+    return call<void>(callback => fs.writeFile(tempPath, JSON.stringify(logs), callback))
+      .then(() => call<void>(callback => fs.rename(tempPath, this.path, callback)));
+  }
+}
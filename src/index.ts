@@ -0,0 +1,8 @@
+export * from './async_throttle';
+export * from './clock';
+export * from './keyed_async_throttle';
+export * from './map_throttled';
+export * from './rate_limit_stores';
+export * from './throttled';
+export * from './throttled_batcher';
+export * from './trace_recorder';
@@ -0,0 +1,92 @@
+import {AsyncThrottle, AsyncThrottleOptions, CallThrottledOptions, StartWork} from './async_throttle';
+
+// Provides the throttling options for a key, when throttles are configured per key.
+export type KeyedAsyncThrottleOptionsResolver<K> = (key: K) => AsyncThrottleOptions;
+
+// A registry of throttles, one per key (e.g., per API or per tenant). Throttles are created lazily when work is first
+// provided for a key, and are discarded once they are idle, so the registry only holds keys with recent work.
+export class KeyedAsyncThrottle<K = string> {
+  private readonly resolveOptions: KeyedAsyncThrottleOptionsResolver<K>;
+  private readonly throttles: Map<K, AsyncThrottle>;
+  // The number of throttles at which the registry is next swept for idle throttles.
+  private sweepSize: number;
+
+  // Receives either the options used for every key, or a function that provides the options for a given key. A
+  // resolver is called each time a throttle is created for a key, including when a key is reused after eviction.
+  constructor(options: AsyncThrottleOptions | KeyedAsyncThrottleOptionsResolver<K>) {
+    this.resolveOptions = typeof options === 'function' ? options : () => options;
+    this.throttles = new Map<K, AsyncThrottle>();
+    this.sweepSize = 1;
+  }
+
+  // Returns the throttle for a key, creating it if necessary.
+  private throttleFor(key: K): AsyncThrottle {
+    let throttle = this.liveThrottle(key);
+    if (!throttle) {
+      if (this.throttles.size >= this.sweepSize) {
+        this.evictIdleThrottles();
+      }
+      throttle = new AsyncThrottle(this.resolveOptions(key));
+      this.throttles.set(key, throttle);
+    }
+    return throttle;
+  }
+
+  // Returns the throttle for a key, if the registry holds one that is not idle. An idle throttle is evicted instead.
+  // Eviction waits until started work has also left the rate windows, so that a replacement throttle can never exceed
+  // the limits for the key. No timer is held for this: idleness is checked whenever the registry is used.
+  private liveThrottle(key: K): AsyncThrottle | undefined {
+    const throttle = this.throttles.get(key);
+    if (throttle && throttle.isIdle()) {
+      this.throttles.delete(key);
+      return undefined;
+    }
+    return throttle;
+  }
+
+  // Evicts every idle throttle. A sweep happens whenever the registry has doubled in size since the last one, so that
+  // keys that are never used again are evicted at an amortized constant cost per new throttle.
+  private evictIdleThrottles() {
+    this.throttles.forEach((throttle, key) => {
+      if (throttle.isIdle()) {
+        this.throttles.delete(key);
+      }
+    });
+    this.sweepSize = 2 * this.throttles.size;
+  }
+
+  // Returns true if the registry currently holds a throttle for the key.
+  has(key: K): boolean {
+    return this.liveThrottle(key) !== undefined;
+  }
+
+  // Executes work using the throttle for the key. See AsyncThrottle.callThrottled.
+  callThrottled<T>(key: K, startWork: StartWork<T>, options?: CallThrottledOptions): Promise<T> {
+    return this.throttleFor(key).callThrottled(startWork, options);
+  }
+
+  // Returns a function that calls fn through the throttle for the key that keyOf derives from its arguments. See
+  // AsyncThrottle.wrap.
+  wrap<F extends (...args: any[]) => Promise<any>>(
+    fn: F,
+    keyOf: (...args: any[]) => K,
+    options?: CallThrottledOptions,
+  ): F {
+    const throttles = this;
+    return function(this: any, ...args: any[]) {
+      return throttles.callThrottled(keyOf(...args), () => fn.apply(this, args), options);
+    } as F;
+  }
+
+  // Returns a promise that is resolved when all work for the key is complete or, if no key is provided, when all work
+  // for all keys that currently have throttles is complete. This promise is never rejected.
+  whenDrained(key?: K): Promise<void> {
+    if (key !== undefined) {
+      const throttle = this.liveThrottle(key);
+      return throttle ? throttle.whenDrained() : Promise.resolve();
+    }
+    const drained: Array<Promise<void>> = [];
+    this.throttles.forEach(throttle => drained.push(throttle.whenDrained()));
+    return Promise.all(drained).then(() => {});
+  }
+}
@@ -0,0 +1,39 @@
+import {AsyncThrottle} from './async_throttle';
+import {MapThrottledOptions} from './map_throttled';
+
+// Holds completed results until they can be produced in the requested order.
+export class Results<T> {
+  private readonly ordered: boolean;
+  private readonly values: Map<number, T>;
+  // The index of the next result to produce in input order, or the order of completion.
+  private nextIndex: number;
+
+  constructor(ordered: boolean) {
+    this.ordered = ordered;
+    this.values = new Map<number, T>();
+    this.nextIndex = 0;
+  }
+
+  add(index: number, value: T) {
+    this.values.set(this.ordered ? index : this.nextIndex + this.values.size, value);
+  }
+
+  // Returns the next result to produce, or null if it has not completed yet.
+  shift(): {value: T} | null {
+    if (!this.values.has(this.nextIndex)) {
+      return null;
+    }
+    const value = this.values.get(this.nextIndex)!;
+    this.values.delete(this.nextIndex);
+    this.nextIndex += 1;
+    return {value};
+  }
+}
+
+// Splits the mapping options from the options for the throttle.
+export function createThrottle(
+  options: MapThrottledOptions,
+): {throttle: AsyncThrottle, ordered: boolean, maxPending: number} {
+  const {order, maxPending, ...throttleOptions} = options;
+  return {throttle: new AsyncThrottle(throttleOptions), ordered: order !== 'completion', maxPending: maxPending || 16};
+}
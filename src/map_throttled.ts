@@ -0,0 +1,175 @@
+import {AsyncThrottle, AsyncThrottleOptions} from './async_throttle';
+import {createThrottle, Results} from './map_results';
+
+// Maps an item (with its index in the source) to a promise for its result.
+export type MapWork<S, T> = (item: S, index: number) => Promise<T>;
+
+export interface MapThrottledOptions extends AsyncThrottleOptions {
+  // The order in which results are produced: 'input' (the default) produces results in the order of the source, while
+  // 'completion' produces each result as soon as its work completes.
+  order?: 'input' | 'completion';
+  // The maximum number of items read from the source whose results have not yet been consumed (default 16). This
+  // bounds the memory used when the consumer is slower than the work, or when results are held back for input order.
+  maxPending?: number;
+}
+
+// The iterator returned by mapThrottled. Items are read from the source one at a time, and the next item is only read
+// once the work for the previous item has been started by the throttle, so that reading never gets ahead of the
+// throttle by more than one item.
+class ThrottledMapping<S, T> implements AsyncIterableIterator<T> {
+  private readonly source: Iterator<S> | AsyncIterator<S>;
+  private readonly mapWork: MapWork<S, T>;
+  private readonly throttle: AsyncThrottle;
+  private readonly maxPending: number;
+  private readonly results: Results<T>;
+  // Calls to next that are waiting for a result.
+  private readonly consumers: Array<{resolve: (result: IteratorResult<T>) => void, reject: (error: any) => void}>;
+
+  // The number of items read from the source, and the number of those whose results have not been consumed.
+  private readCount: number;
+  private pendingCount: number;
+  // Whether an item is being read from the source, or has been read but its work has not yet been started.
+  private reading: boolean;
+  private awaitingStart: boolean;
+  // Whether the source has been exhausted, and whether iteration has finished (because the source was exhausted and
+  // all results consumed, an error was produced, or the consumer stopped early).
+  private sourceDone: boolean;
+  private finished: boolean;
+  // The first error from the source or from work, which has not yet been produced.
+  private error: {error: any} | null;
+
+  constructor(source: Iterable<S> | AsyncIterable<S>, mapWork: MapWork<S, T>, options: MapThrottledOptions) {
+    const asyncSource = source as AsyncIterable<S>;
+    this.source = asyncSource[Symbol.asyncIterator] ?
+      asyncSource[Symbol.asyncIterator]() : (source as Iterable<S>)[Symbol.iterator]();
+    this.mapWork = mapWork;
+    const {throttle, ordered, maxPending} = createThrottle(options);
+    this.throttle = throttle;
+    this.maxPending = maxPending;
+    this.results = new Results<T>(ordered);
+    this.consumers = [];
+    this.readCount = 0;
+    this.pendingCount = 0;
+    this.reading = false;
+    this.awaitingStart = false;
+    this.sourceDone = false;
+    this.finished = false;
+    this.error = null;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    return new Promise<IteratorResult<T>>((resolve, reject) => {
+      this.consumers.push({resolve, reject});
+      this.produce();
+      this.read();
+    });
+  }
+
+  // Stops iteration early (e.g., on break from a for-await loop). Work that has already been provided to the throttle
+  // is allowed to complete, but its results are discarded.
+  return(): Promise<IteratorResult<T>> {
+    this.finish();
+    return Promise.resolve({done: true} as IteratorResult<T>);
+  }
+
+  // Reads the next item from the source and provides its work to the throttle, if there is room.
+  private read() {
+    if (this.reading || this.awaitingStart || this.sourceDone || this.finished ||
+        this.pendingCount >= this.maxPending) {
+      return;
+    }
+    this.reading = true;
+    Promise.resolve()
+      .then(() => this.source.next())
+      .then(result => {
+        this.reading = false;
+        if (this.finished) {
+          return;
+        }
+        if (result.done) {
+          this.sourceDone = true;
+          this.produce();
+          return;
+        }
+        const index = this.readCount++;
+        this.pendingCount += 1;
+        this.awaitingStart = true;
+        this.throttle
+          .callThrottled(() => {
+            if (this.awaitingStart) {
+              this.awaitingStart = false;
+              this.read();
+            }
+            return this.mapWork(result.value, index);
+          })
+          .then(value => {
+            this.results.add(index, value);
+            this.produce();
+          }, error => this.fail(error));
+      })
+      .catch(error => {
+        this.reading = false;
+        this.fail(error);
+      });
+  }
+
+  // Settles waiting calls to next with the results (or error) that are available.
+  private produce() {
+    while (this.consumers.length > 0) {
+      if (this.error) {
+        this.consumers.shift()!.reject(this.error.error);
+        this.error = null;
+        continue;
+      }
+      if (this.finished) {
+        this.consumers.shift()!.resolve({done: true} as IteratorResult<T>);
+        continue;
+      }
+      const result = this.results.shift();
+      if (result) {
+        this.pendingCount -= 1;
+        this.consumers.shift()!.resolve({done: false, value: result.value});
+        this.read();
+      } else if (this.sourceDone && this.pendingCount === 0) {
+        this.finished = true;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private fail(error: any) {
+    if (this.finished) {
+      return;
+    }
+    this.error = {error};
+    this.finish();
+  }
+
+  private finish() {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    if (!this.sourceDone && this.source.return) {
+      this.sourceDone = true;
+      Promise.resolve().then(() => this.source.return!()).catch(() => {});
+    }
+    this.produce();
+  }
+}
+
+// Maps the items of a source through throttled work, returning an async iterable of the results. Items are read from
+// the source lazily, only as the throttle is ready to start their work. The first error from the source or from work
+// is produced by the iterable, after which iteration ends.
+export function mapThrottled<S, T>(
+  source: Iterable<S> | AsyncIterable<S>,
+  mapWork: MapWork<S, T>,
+  options: MapThrottledOptions,
+): AsyncIterableIterator<T> {
+  return new ThrottledMapping<S, T>(source, mapWork, options);
+}
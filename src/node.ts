@@ -0,0 +1,6 @@
+// The entry point for Node.js, which adds the parts that depend on Node.js modules (fs and stream) to the entry point
+// for all runtimes.
+export * from './index';
+export * from './durable_queue';
+export * from './file_rate_limit_store';
+export * from './throttled_transform';
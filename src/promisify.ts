@@ -0,0 +1,4 @@
+// Adapts a Node.js callback-style call to a promise.
+export function call<T>(fn: (callback: (error: any, result?: T) => void) => void): Promise<T> {
+  return new Promise<T>((resolve, reject) => fn((error, result) => error ? reject(error) : resolve(result)));
+}
@@ -0,0 +1,26 @@
+import {RateLimit, RateLimitStore} from './async_throttle';
+import {Clock, systemClock} from './clock';
+import {reserveStart, StartRecord} from './start_log';
+
+// A store that keeps the accounting in memory, for throttles in the same process (e.g., separate throttles for
+// separate operations that count against one quota). Throttles using a ManualClock should share it with the store.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly logs: Map<string, StartRecord[]>;
+  private readonly clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.logs = new Map<string, StartRecord[]>();
+    this.clock = clock;
+  }
+
+  reserve(key: string, limits: RateLimit[], cost: number): Promise<number> {
+    const log = this.logs.get(key) || [];
+    const delay = reserveStart(log, limits, cost, this.clock.now());
+    if (log.length > 0) {
+      this.logs.set(key, log);
+    } else {
+      this.logs.delete(key);
+    }
+    return Promise.resolve(delay);
+  }
+}
@@ -0,0 +1,29 @@
+import {RateLimit} from './async_throttle';
+
+// A start recorded in a store, as [time, cost]. Logs of starts are ordered by time.
+export type StartRecord = [number, number];
+
+// Records a start of the given cost in a log if every limit has room for it, with the same accounting as the
+// throttle's own rate windows. Returns 0 if the start was recorded, or otherwise the delay until there may be room.
+// Starts that have expired from every window are removed from the log.
+export function reserveStart(log: StartRecord[], limits: RateLimit[], cost: number, now: number): number {
+  const longestWindowMs = limits.reduce((longest, limit) => Math.max(longest, limit.windowMs), 0);
+  while (log.length > 0 && log[0][0] + longestWindowMs <= now) {
+    log.shift();
+  }
+
+  let delay = 0;
+  limits.forEach(limit => {
+    const inWindow = log.filter(([time]) => time + limit.windowMs > now);
+    let count = inWindow.reduce((sum, [, startCost]) => sum + startCost, 0);
+    // Starts expire from the window oldest first, so the delay is until enough of them have expired to make room.
+    for (let i = 0; count > 0 && count + cost > limit.maxStarts; i++) {
+      count -= inWindow[i][1];
+      delay = Math.max(delay, inWindow[i][0] + limit.windowMs - now);
+    }
+  });
+  if (delay === 0) {
+    log.push([now, cost]);
+  }
+  return delay;
+}
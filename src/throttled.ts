@@ -0,0 +1,40 @@
+import {AsyncThrottle, AsyncThrottleOptions, CallThrottledOptions} from './async_throttle';
+import {KeyedAsyncThrottle} from './keyed_async_throttle';
+
+export interface ThrottledOptions extends CallThrottledOptions {
+  // Derives a key from the method's arguments, so that each key is throttled separately (see KeyedAsyncThrottle).
+  // Requires a KeyedAsyncThrottle, or options for one.
+  key?: (...args: any[]) => any;
+}
+
+// A method decorator that sends every call of the method through a throttle: either the given throttle, or one created
+// from the given options. The throttle is shared by all instances of the class, so every call of the method counts
+// against the same limits. The method must return a promise.
+export function throttled(
+  throttle: AsyncThrottle | KeyedAsyncThrottle<any> | AsyncThrottleOptions,
+  options: ThrottledOptions = {},
+) {
+  const {key, ...callOptions} = options;
+  let wrap: <F extends (...args: any[]) => Promise<any>>(fn: F) => F;
+  if (key) {
+    if (throttle instanceof AsyncThrottle) {
+      throw new Error('A keyed method must be throttled by a KeyedAsyncThrottle.');
+    }
+    const keyed = throttle instanceof KeyedAsyncThrottle ? throttle : new KeyedAsyncThrottle<any>(throttle);
+    wrap = fn => keyed.wrap(fn, key, callOptions);
+  } else {
+    if (throttle instanceof KeyedAsyncThrottle) {
+      throw new Error('A method throttled by a KeyedAsyncThrottle must provide a key.');
+    }
+    const single = throttle instanceof AsyncThrottle ? throttle : new AsyncThrottle(throttle);
+    wrap = fn => single.wrap(fn, callOptions);
+  }
+
+  return <F extends (...args: any[]) => Promise<any>>(
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: TypedPropertyDescriptor<F>,
+  ) => {
+    descriptor.value = wrap(descriptor.value!);
+  };
+}
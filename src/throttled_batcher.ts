@@ -0,0 +1,87 @@
+import {AbortSignalLike, AsyncThrottle, AsyncThrottleOptions, WorkOutcome} from './async_throttle';
+import {Clock, systemClock, TimerHandle} from './clock';
+
+// Performs the work for a batch of items with the same key, resolving with the outcome for each item, in the order of
+// the items. Rejecting fails every item in the batch.
+export type BatchWork<I, R> = (items: I[], key: string, signal?: AbortSignalLike) => Promise<Array<WorkOutcome<R>>>;
+
+export interface ThrottledBatcherOptions {
+  // The maximum number of items in a batch. A batch is started as soon as it is full.
+  maxBatchSize: number;
+  // The maximum time for which a batch collects items, from when its first item is added (default 0, which collects
+  // the items added before timers next run).
+  maxWaitMs?: number;
+}
+
+// The items collected for a batch, with the callbacks that settle each item's promise.
+interface Batch<I, R> {
+  items: I[];
+  settlers: Array<{resolve: (value: R) => void, reject: (error: any) => void}>;
+  timer: TimerHandle | null;
+}
+
+// Collects individual calls into batches by key, and runs each batch as a single work item through a throttle, so that
+// a batch counts against the throttle's limits as one call. The outcome for each item settles the promise returned
+// for it.
+export class ThrottledBatcher<I, R> {
+  private readonly batchWork: BatchWork<I, R>;
+  private readonly throttle: AsyncThrottle;
+  private readonly clock: Clock;
+  private readonly maxBatchSize: number;
+  private readonly maxWaitMs: number;
+  // The batches that are collecting items, by key.
+  private readonly batches: Map<string, Batch<I, R>>;
+
+  constructor(batchWork: BatchWork<I, R>, throttle: AsyncThrottle | AsyncThrottleOptions,
+              options: ThrottledBatcherOptions) {
+    this.batchWork = batchWork;
+    this.throttle = throttle instanceof AsyncThrottle ? throttle : new AsyncThrottle(throttle);
+    this.clock = this.throttle.getOptions().clock || systemClock;
+    this.maxBatchSize = options.maxBatchSize;
+    this.maxWaitMs = options.maxWaitMs || 0;
+    this.batches = new Map<string, Batch<I, R>>();
+  }
+
+  // Adds an item to the batch for the key, returning a promise for the item's result.
+  callBatched(key: string, item: I): Promise<R> {
+    let batch = this.batches.get(key);
+    if (!batch) {
+      batch = {items: [], settlers: [], timer: null};
+      this.batches.set(key, batch);
+      batch.timer = this.clock.setTimer(() => this.startBatch(key), this.maxWaitMs);
+    }
+    const promise = new Promise<R>((resolve, reject) => batch!.settlers.push({resolve, reject}));
+    batch.items.push(item);
+    if (batch.items.length >= this.maxBatchSize) {
+      this.startBatch(key);
+    }
+    return promise;
+  }
+
+  // Provides every collecting batch to the throttle without waiting further.
+  flush() {
+    Array.from(this.batches.keys()).forEach(key => this.startBatch(key));
+  }
+
+  // Stops collecting the batch for the key, and provides it to the throttle.
+  private startBatch(key: string) {
+    const batch = this.batches.get(key)!;
+    this.batches.delete(key);
+    this.clock.clearTimer(batch.timer);
+    this.throttle
+      .callThrottled(signal => this.batchWork(batch.items, key, signal))
+      .then(outcomes => {
+        if (!Array.isArray(outcomes) || outcomes.length !== batch.items.length) {
+          throw new Error(`Batch work for ${batch.items.length} items did not provide an outcome for each item.`);
+        }
+        outcomes.forEach((outcome, i) => {
+          if (outcome.fulfilled) {
+            batch.settlers[i].resolve(outcome.value);
+          } else {
+            batch.settlers[i].reject(outcome.error);
+          }
+        });
+      })
+      .catch(error => batch.settlers.forEach(settler => settler.reject(error)));
+  }
+}
@@ -0,0 +1,77 @@
+import {Transform} from 'stream';
+import {AsyncThrottle} from './async_throttle';
+import {createThrottle, Results} from './map_results';
+import {MapThrottledOptions, MapWork} from './map_throttled';
+
+// A transform stream (in object mode) that maps each chunk through throttled work, like mapThrottled. A chunk is only
+// accepted once the work for the previous chunk has been started, and while fewer than maxPending results are waiting
+// to be read, so that backpressure propagates from the throttle and from the readable side to the writable side.
+// Results must not be null, which would end the stream. Any error from work destroys the stream.
+export class ThrottledTransform<S, T> extends Transform {
+  private readonly mapWork: MapWork<S, T>;
+  private readonly throttle: AsyncThrottle;
+  private readonly maxPending: number;
+  private readonly results: Results<T>;
+  // The number of chunks written, and the number of those whose results have not been pushed.
+  private writeCount: number;
+  private pendingCount: number;
+  // The callback for the latest chunk, if it is waiting for room, and the callback for the end of the stream, if it is
+  // waiting for all results to be pushed.
+  private onRoom: (() => void) | null;
+  private onFlushed: (() => void) | null;
+
+  constructor(mapWork: MapWork<S, T>, options: MapThrottledOptions) {
+    super({objectMode: true});
+    this.mapWork = mapWork;
+    const {throttle, ordered, maxPending} = createThrottle(options);
+    this.throttle = throttle;
+    this.maxPending = maxPending;
+    this.results = new Results<T>(ordered);
+    this.writeCount = 0;
+    this.pendingCount = 0;
+    this.onRoom = null;
+    this.onFlushed = null;
+  }
+
+  _transform(chunk: S, encoding: string, callback: () => void) {
+    const index = this.writeCount++;
+    this.pendingCount += 1;
+    let started = false;
+    this.throttle
+      .callThrottled(() => {
+        if (!started) {
+          started = true;
+          this.onRoom = callback;
+          this.checkRoom();
+        }
+        return this.mapWork(chunk, index);
+      })
+      .then(value => {
+        this.results.add(index, value);
+        for (let result = this.results.shift(); result; result = this.results.shift()) {
+          this.pendingCount -= 1;
+          this.push(result.value);
+        }
+        this.checkRoom();
+      }, error => this.destroy(error));
+  }
+
+  _flush(callback: () => void) {
+    this.onFlushed = callback;
+    this.checkRoom();
+  }
+
+  // Calls the waiting callbacks, if there is room for another chunk or all results have been pushed.
+  private checkRoom() {
+    if (this.onRoom && this.pendingCount < this.maxPending) {
+      const onRoom = this.onRoom;
+      this.onRoom = null;
+      onRoom();
+    }
+    if (this.onFlushed && this.pendingCount === 0) {
+      const onFlushed = this.onFlushed;
+      this.onFlushed = null;
+      onFlushed();
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import {AsyncThrottleHooks, ThrottledReason, WorkEvent} from './async_throttle';
+import {Clock, systemClock} from './clock';
+
+export interface TraceRecorderOptions {
+  // The source of time, which should be the throttle's clock (default systemClock).
+  clock?: Clock;
+  // The maximum number of attempts at work to keep. The oldest are discarded first (default 10000).
+  maxItems?: number;
+}
+
+export interface TimelineOptions {
+  // The time represented by each character of the timeline (default 100ms).
+  msPerChar?: number;
+}
+
+// The recorded lifecycle of an attempt at work. Times are as from the recorder's clock.
+export interface TraceItem {
+  id: number;
+  attempt: number;
+  priority: number;
+  enqueueTime: number;
+  // The time the attempt was started, and the limit (if any) that held it while queued.
+  startTime?: number;
+  waitReason?: ThrottledReason;
+  // The time the attempt completed (or was cancelled), and whether it succeeded.
+  settleTime?: number;
+  fulfilled?: boolean;
+  // Whether the attempt was cancelled before it started: aborted, timed out in the queue, dropped from the queue, or
+  // rejected because the throttle closed.
+  cancelled?: boolean;
+}
+
+// An event in the Chrome trace event format, as read by chrome://tracing and Perfetto.
+export interface ChromeTraceEvent {
+  name: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: {[name: string]: any};
+}
+
+// Records the lifecycle of every work item in a throttle, provided as the throttle's trace option. The recording can be
+// rendered as an ASCII timeline or exported as a Chrome trace, e.g., for debugging stalls in production.
+export class TraceRecorder {
+  private readonly clock: Clock;
+  private readonly maxItems: number;
+  // The recorded attempts, in the order they were enqueued, and the attempts that have not settled, by id and attempt.
+  private items: TraceItem[];
+  private readonly unsettled: Map<string, TraceItem>;
+
+  // The hooks through which the throttle reports to the recorder.
+  readonly hooks: AsyncThrottleHooks = {
+    enqueue: event => {
+      const item = {id: event.id, attempt: event.attempt, priority: event.priority, enqueueTime: this.clock.now()};
+      this.items.push(item);
+      this.unsettled.set(itemKey(event), item);
+      if (this.items.length > this.maxItems) {
+        const discarded = this.items.shift()!;
+        this.unsettled.delete(itemKey(discarded));
+      }
+    },
+    start: event => {
+      const item = this.unsettled.get(itemKey(event));
+      if (item) {
+        item.startTime = this.clock.now();
+        item.waitReason = event.waitReason;
+      }
+    },
+    settle: event => this.settle(event, false),
+    cancel: event => this.settle(event, true),
+  };
+
+  constructor(options: TraceRecorderOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.maxItems = options.maxItems || 10000;
+    this.items = [];
+    this.unsettled = new Map<string, TraceItem>();
+  }
+
+  // Returns the recorded attempts, in the order they were enqueued.
+  getItems(): TraceItem[] {
+    return this.items.map(item => ({...item}));
+  }
+
+  // Discards everything recorded so far.
+  clear() {
+    this.items = [];
+    this.unsettled.clear();
+  }
+
+  // Renders the recording as an ASCII timeline, with a row for each attempt (labeled by the order in which work was
+  // first enqueued, and the attempt if it was retried), starting from the first enqueued attempt:
+  //
+  //   . = throttled
+  //   * = running
+  //   ! = complete
+  //   x = failed (or cancelled while throttled)
+  //
+  //       0ms       1000ms    2000ms
+  //       +---------+---------+
+  //   W1  **********!
+  //   W2  ..........*****x
+  //   W3  ...............x
+  renderTimeline(options: TimelineOptions = {}): string {
+    const msPerChar = options.msPerChar || 100;
+    const legend = '. = throttled\n* = running\n! = complete\nx = failed (or cancelled while throttled)\n';
+    if (this.items.length === 0) {
+      return legend;
+    }
+    const origin = this.items[0].enqueueTime;
+    const now = this.clock.now();
+    const column = (time: number) => Math.floor((time - origin) / msPerChar);
+
+    const labels = this.labels();
+    const rows = this.items.map(item => {
+      const startColumn = column(queuedUntil(item, now));
+      const endColumn = column(item.settleTime !== undefined ? item.settleTime : now);
+      const ending = item.settleTime === undefined ? '' : item.fulfilled ? '!' : 'x';
+      return ' '.repeat(column(item.enqueueTime)) + '.'.repeat(startColumn - column(item.enqueueTime)) +
+        '*'.repeat(Math.max(0, endColumn - startColumn)) + ending;
+    });
+    // The scale ends with a mark beyond the end of the longest row.
+    const width = Math.floor(Math.max(...rows.map(row => row.length)) / 10) * 10 + 11;
+    const indent = Math.max(...labels.map(label => label.length)) + 2;
+
+    // There is a mark every 10 characters, labeled where there is room.
+    let scale = '';
+    let marks = '';
+    for (let i = 0; i < width; i++) {
+      marks += i % 10 === 0 ? '+' : '-';
+      if (i % 10 === 0 && scale.length <= i) {
+        scale += ' '.repeat(i - scale.length) + `${i * msPerChar}ms`;
+      }
+    }
+    const pad = (label: string) => label + ' '.repeat(indent - label.length);
+    return `${legend}\n${pad('')}${scale}\n${pad('')}${marks}\n` +
+      rows.map((row, i) => `${pad(labels[i])}${row}\n`).join('');
+  }
+
+  // Exports the recording in the Chrome trace event format, for chrome://tracing or Perfetto (serialize the result as
+  // JSON). Each attempt is a thread, with a span for the time it was queued and a span for the time it ran (if it was
+  // started).
+  toChromeTrace(): {traceEvents: ChromeTraceEvent[]} {
+    const now = this.clock.now();
+    const micros = (ms: number) => Math.round(ms * 1000);
+    const labels = this.labels();
+    const traceEvents: ChromeTraceEvent[] = [];
+    this.items.forEach((item, i) => {
+      const tid = i + 1;
+      traceEvents.push({name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid, args: {name: labels[i]}});
+      const queuedTime = queuedUntil(item, now);
+      traceEvents.push({
+        name: 'queued', ph: 'X', ts: micros(item.enqueueTime), dur: micros(queuedTime - item.enqueueTime), pid: 1, tid,
+        args: {
+          id: item.id, attempt: item.attempt, priority: item.priority, waitReason: item.waitReason,
+          cancelled: item.cancelled || false,
+        },
+      });
+      if (item.startTime !== undefined) {
+        const settleTime = item.settleTime !== undefined ? item.settleTime : now;
+        const outcome = item.settleTime === undefined ? 'running' : item.fulfilled ? 'fulfilled' : 'rejected';
+        traceEvents.push({
+          name: 'running', ph: 'X', ts: micros(item.startTime), dur: micros(settleTime - item.startTime), pid: 1, tid,
+          args: {id: item.id, attempt: item.attempt, outcome},
+        });
+      }
+    });
+    return {traceEvents};
+  }
+
+  // Records the end of an attempt, whether it completed or was cancelled while queued.
+  private settle(event: WorkEvent, cancelled: boolean) {
+    const item = this.unsettled.get(itemKey(event));
+    if (item) {
+      item.settleTime = this.clock.now();
+      item.fulfilled = event.outcome!.fulfilled;
+      if (cancelled) {
+        item.cancelled = true;
+      }
+      this.unsettled.delete(itemKey(event));
+    }
+  }
+
+  // Labels each attempt by the order in which its work was first enqueued (e.g., 'W3'), with the attempt for retries
+  // (e.g., 'W3#2').
+  private labels(): string[] {
+    const numbers = new Map<number, number>();
+    return this.items.map(item => {
+      if (!numbers.has(item.id)) {
+        numbers.set(item.id, numbers.size + 1);
+      }
+      return `W${numbers.get(item.id)}${item.attempt > 1 ? `#${item.attempt}` : ''}`;
+    });
+  }
+}
+
+function itemKey(event: WorkEvent | TraceItem): string {
+  return `${event.id}.${event.attempt}`;
+}
+
+// The time until which an attempt was queued: until it was started or cancelled, or until now if it is still queued.
+function queuedUntil(item: TraceItem, now: number): number {
+  if (item.startTime !== undefined) {
+    return item.startTime;
+  }
+  return item.settleTime !== undefined ? item.settleTime : now;
+}
@@ -1,4 +1,17 @@
-import {AsyncThrottle, AsyncThrottleOptions} from '../src/async_throttle';
+import {
+  AbortError,
+  AllFailedError,
+  AbortSignalLike,
+  AsyncThrottle,
+  AsyncThrottleOptions,
+  ExecutionTimeoutError,
+  QueueOverflowError,
+  QueueTimeoutError,
+  RetryError,
+  ThrottleClosedError,
+  WorkOutcome,
+} from '../src/async_throttle';
+import {MemoryRateLimitStore} from '../src/rate_limit_stores';
 import {expect} from 'chai';
 import * as lolex from 'lolex';
 
@@ -50,6 +63,30 @@ class Worker {
   }
 }
 
+// A minimal abort controller, since not all supported runtimes provide one.
+class TestAbortController {
+  private listeners: Array<() => void> = [];
+
+  readonly signal: AbortSignalLike = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) => {
+      this.listeners.push(listener);
+    },
+    removeEventListener: (type: 'abort', listener: () => void) => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    },
+  };
+
+  get listenerCount() {
+    return this.listeners.length;
+  }
+
+  abort() {
+    (this.signal as {aborted: boolean}).aborted = true;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
 describe('AsyncThrottle', () => {
   let clock;
 
@@ -257,6 +294,105 @@ describe('AsyncThrottle', () => {
     });
   });
 
+  describe('throttling on multiple rate limits', () => {
+    it('starts work only when every window has room', () => {
+      const throttle = new AsyncThrottle({
+        rateLimits: [{maxStarts: 3, windowMs: 10000}, {maxStarts: 2, windowMs: 1000}],
+      });
+
+      const workers = [new Worker(), new Worker(), new Worker(), new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false, false, false]);
+
+      clock.tick(999);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false, false, false]);
+
+      clock.tick(1);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, false, false]);
+
+      clock.tick(8999);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, false, false]);
+
+      // The first two work items leave the longer window together, but the shorter window only has room for one.
+      clock.tick(1);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true, true]);
+
+      expect(Date.now()).to.be.eql(10000);
+
+      return throttle.whenDrained();
+    });
+
+    it('combines with maxQps', () => {
+      const throttle = new AsyncThrottle({maxQps: 1, rateLimits: [{maxStarts: 2, windowMs: 5000}]});
+
+      const workers = [new Worker(), new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, false, false]);
+
+      clock.tick(1000);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+
+      clock.tick(3999);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+
+      clock.tick(1);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true]);
+
+      return throttle.whenDrained();
+    });
+  });
+
+  describe('throttling with a token bucket', () => {
+    it('allows a burst and then a steady rate', () => {
+      const throttle = new AsyncThrottle({tokenBucket: {rate: 2, burst: 3}});
+
+      const workers = [new Worker(), new Worker(), new Worker(), new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, false, false]);
+
+      clock.tick(499);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, false, false]);
+
+      clock.tick(1);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true, false]);
+
+      clock.tick(499);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true, false]);
+
+      clock.tick(1);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true, true]);
+
+      return throttle.whenDrained();
+    });
+
+    it('refills the burst while idle', () => {
+      const throttle = new AsyncThrottle({tokenBucket: {rate: 1, burst: 2}});
+
+      [new Worker(), new Worker()].forEach(w => throttle.callThrottled(() => w.work()));
+
+      return throttle.whenDrained().then(() => {
+        clock.tick(1000);
+        expect(throttle.isIdle()).to.be.false;
+
+        clock.tick(1000);
+        expect(throttle.isIdle()).to.be.true;
+
+        const workers = [new Worker(), new Worker(), new Worker()];
+        workers.forEach(w => throttle.callThrottled(() => w.work()));
+        expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+
+        clock.tick(1000);
+        expect(workers.map(w => w.called)).to.be.eql([true, true, true]);
+
+        return throttle.whenDrained();
+      });
+    });
+
+    it('cannot be combined with rolling windows', () => {
+      expect(() => new AsyncThrottle({maxQps: 1, tokenBucket: {rate: 1, burst: 1}})).to.throw();
+    });
+  });
+
   describe('throttling on outstanding work and QPS', () => {
     function advanceOutstandingFirst(throttle) {
       const w1 = new Worker();
@@ -322,6 +458,135 @@ describe('AsyncThrottle', () => {
     });
   });
 
+  describe('reconfiguration', () => {
+    it('starts queued work when raising maxOutstanding', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+
+      const workers = [new Worker(Flags.MANUAL), new Worker(Flags.MANUAL), new Worker(Flags.MANUAL)];
+      const complete = workers.map(w => throttle.callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, false, false]);
+
+      throttle.setOptions({maxOutstanding: 2});
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+      expect(throttle.getOptions()).to.be.eql({maxOutstanding: 2});
+
+      workers.forEach(w => w.complete());
+      return Promise.all(complete.slice(0, 2)).then(() => {
+        expect(workers.map(w => w.called)).to.be.eql([true, true, true]);
+        workers[2].complete();
+        return Promise.all([complete[2], throttle.whenDrained()]);
+      });
+    });
+
+    it('does not affect running work when lowering maxOutstanding', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 2});
+
+      const workers = [new Worker(Flags.MANUAL), new Worker(Flags.MANUAL), new Worker()];
+      const complete = workers.map(w => throttle.callThrottled(() => w.work()));
+      throttle.setOptions({maxOutstanding: 1});
+
+      workers[0].complete();
+      return complete[0].then(() => {
+        expect(workers[2].called).to.be.false;
+        workers[1].complete();
+        return Promise.all([complete[1], complete[2], throttle.whenDrained()]);
+      }).then(() => {
+        expect(workers[2].called).to.be.true;
+      });
+    });
+
+    it('re-arms the timer when changing maxQps', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+
+      const workers = [new Worker(), new Worker(), new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, false, false, false]);
+
+      clock.tick(500);
+      throttle.setOptions({maxQps: 2});
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false, false]);
+
+      // Work started before the change still counts against the new limit.
+      clock.tick(499);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false, false]);
+      clock.tick(1);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, false]);
+
+      throttle.setOptions({maxQps: undefined});
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true]);
+
+      return throttle.whenDrained();
+    });
+  });
+
+  describe('adaptive limits', () => {
+    const classify = (outcome: WorkOutcome<void>) =>
+      outcome.fulfilled ? 'ok' : outcome.error === Worker.promiseError ? 'overloaded' : 'ignore';
+
+    it('cuts limits once for a burst of overloaded work', () => {
+      const throttle = new AsyncThrottle({
+        maxOutstanding: 4,
+        adaptive: {classify, outstanding: {min: 1, max: 8}, qps: {min: 1, max: 10}},
+      });
+      expect(throttle.getEffectiveLimits()).to.be.eql({maxOutstanding: 4, maxQps: 10});
+
+      clock.tick(1);
+      const workers = [1, 2, 3, 4].map(() => new Worker(Flags.MANUAL | Flags.FAIL));
+      const complete = workers.map(w => throttle.callThrottled(() => w.work()).catch(() => {}));
+
+      clock.tick(1);
+      workers.forEach(w => w.complete());
+
+      return Promise.all(complete).then(() => {
+        expect(throttle.getEffectiveLimits()).to.be.eql({maxOutstanding: 2, maxQps: 5});
+        return throttle.whenDrained();
+      });
+    });
+
+    it('raises limits additively on success', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 2, adaptive: {classify, outstanding: {min: 1, max: 3}}});
+      expect(throttle.getEffectiveLimits()).to.be.eql({maxOutstanding: 2, maxQps: undefined});
+
+      // Each success raises the limit by 1/limit, and the limit never exceeds its upper bound.
+      const workers = [1, 2, 3, 4, 5, 6].map(() => new Worker());
+      return workers.reduce((previous, w, i) => previous.then(() => {
+        expect(throttle.getEffectiveLimits().maxOutstanding).to.be.eql(i < 3 ? 2 : 3);
+        return throttle.callThrottled(() => w.work());
+      }), Promise.resolve()).then(() => throttle.whenDrained());
+    });
+
+    it('keeps adapted limits when reconfigured', () => {
+      const throttle = new AsyncThrottle({maxQps: 100, adaptive: {classify, qps: {min: 1, max: 100}}});
+
+      const w1 = new Worker(Flags.FAIL);
+      return throttle.callThrottled(() => w1.work()).catch(() => {
+        expect(throttle.getEffectiveLimits().maxQps).to.be.eql(50);
+
+        throttle.setOptions({maxQueued: 1000});
+        expect(throttle.getEffectiveLimits().maxQps).to.be.eql(50);
+
+        // New bounds apply to the adapted limit.
+        throttle.setOptions({adaptive: {classify, qps: {min: 1, max: 20}}});
+        expect(throttle.getEffectiveLimits().maxQps).to.be.eql(20);
+
+        // A new starting value replaces the adapted limit.
+        throttle.setOptions({maxQps: 10});
+        expect(throttle.getEffectiveLimits().maxQps).to.be.eql(10);
+        return throttle.whenDrained();
+      });
+    });
+
+    it('ignores outcomes as classified', () => {
+      const throttle = new AsyncThrottle({maxQps: 4, adaptive: {classify, qps: {min: 1, max: 10}}});
+
+      const w1 = new Worker(Flags.ERROR);
+      return throttle.callThrottled(() => w1.work()).catch(() => {
+        expect(throttle.getEffectiveLimits()).to.be.eql({maxOutstanding: undefined, maxQps: 4});
+        return throttle.whenDrained();
+      });
+    });
+  });
+
   describe('dealing with errors', () => {
     it('handles a failed promise', () => {
       const throttle = new AsyncThrottle({maxQps: 1});
@@ -370,49 +635,1326 @@ describe('AsyncThrottle', () => {
     });
   });
 
-  describe('callAllThrottled', () => {
-    it('waits for all work', () => {
-      const work = [new Worker(), new Worker(), new Worker(Flags.MANUAL)];
+  describe('retries', () => {
+    const retry = {initialDelayMs: 100, multiplier: 2, jitter: 0};
 
-      const allComplete = AsyncThrottle.callAllThrottled(work.map(w => () => w.work()), {maxQps: 1});
+    // Returns work that fails the given number of times before succeeding, recording the time of each attempt.
+    function flakyWork(failures: number, attemptTimes: number[]) {
+      return () => {
+        attemptTimes.push(Date.now());
+        return attemptTimes.length > failures ? Promise.resolve('done') : Promise.reject(Worker.promiseError);
+      };
+    }
 
-      expect(work[0].called).to.be.true;
-      expect(work[1].called).to.be.false;
-      expect(work[2].called).to.be.false;
+    // Advances the clock one millisecond at a time, allowing promise callbacks to run in between.
+    function advance(ms: number): Promise<void> {
+      let advanced = Promise.resolve();
+      for (let i = 0; i < ms; i++) {
+        advanced = advanced.then(() => {
+          clock.tick(1);
+        });
+      }
+      return advanced;
+    }
 
-      clock.tick(4000);
-      expect(work[1].called).to.be.true;
-      expect(work[2].called).to.be.true;
+    it('retries with exponential backoff', () => {
+      const throttle = new AsyncThrottle({retry});
+      const attemptTimes: number[] = [];
 
-      const timeoutComplete = new Promise(resolve => {
-        setTimeout(resolve, 1000, 'X');
+      const complete = throttle.callThrottled(flakyWork(2, attemptTimes));
+
+      return advance(1000).then(() => complete).then(value => {
+        expect(value).to.be.eql('done');
+        expect(attemptTimes).to.be.eql([0, 100, 300]);
+        return throttle.whenDrained();
       });
+    });
 
-      clock.tick(1000);
-      return Promise.race([allComplete, timeoutComplete]).then(value => {
-        expect(value).to.be.eql('X');
-        work[2].complete();
-        return allComplete;
+    it('counts each attempt against QPS', () => {
+      const throttle = new AsyncThrottle({maxQps: 1, retry: {...retry, initialDelayMs: 10}});
+      const attemptTimes: number[] = [];
+
+      const complete = throttle.callThrottled(flakyWork(1, attemptTimes));
+
+      return advance(2000).then(() => complete).then(() => {
+        expect(attemptTimes).to.be.eql([0, 1000]);
+        return throttle.whenDrained();
       });
     });
 
-    it('rejects when any reject', () => {
-      const work = [new Worker(), new Worker(Flags.FAIL), new Worker(), new Worker()];
+    it('rejects with the attempt history', () => {
+      const throttle = new AsyncThrottle({retry: {...retry, maxAttempts: 2}});
+      const attemptTimes: number[] = [];
 
-      const allComplete = AsyncThrottle.callAllThrottled(work.map(w => () => w.work()), {});
+      const complete = throttle.callThrottled(flakyWork(5, attemptTimes));
 
-      expect(work[0].called).to.be.true;
-      expect(work[1].called).to.be.true;
-      expect(work[2].called).to.be.true;
-      expect(work[3].called).to.be.true;
+      return advance(1000).then(() => complete).then(() => {
+        return Promise.reject('Expected the retried promise to fail.');
+      }).catch(error => {
+        expect(error).to.be.an.instanceof(RetryError);
+        expect(error.lastError).to.be.eql(Worker.promiseError);
+        expect(error.attempts.map(attempt => attempt.startTime)).to.be.eql([0, 100]);
+        expect(attemptTimes).to.be.eql([0, 100]);
+        return throttle.whenDrained();
+      });
+    });
 
-      return allComplete
-        .then(() => {
-          return Promise.reject('Expected the aggregate promise to fail.');
-        })
-        .catch(error => {
-          expect(error).to.be.eql(Worker.promiseError);
-          return Promise.resolve();
+    it('does not retry errors that are not retryable', () => {
+      const throttle = new AsyncThrottle({retry: {...retry, retryable: error => error !== Worker.promiseError}});
+      const attemptTimes: number[] = [];
+
+      return throttle.callThrottled(flakyWork(1, attemptTimes)).then(() => {
+        return Promise.reject('Expected the promise to fail.');
+      }).catch(error => {
+        expect(error).to.be.eql(Worker.promiseError);
+        expect(attemptTimes).to.be.eql([0]);
+      });
+    });
+
+    it('allows retries to be disabled per call', () => {
+      const throttle = new AsyncThrottle({retry});
+      const attemptTimes: number[] = [];
+
+      return throttle.callThrottled(flakyWork(1, attemptTimes), {retry: false}).then(() => {
+        return Promise.reject('Expected the promise to fail.');
+      }).catch(error => {
+        expect(error).to.be.eql(Worker.promiseError);
+        expect(attemptTimes).to.be.eql([0]);
+      });
+    });
+
+    it('is not drained while work waits to be retried', () => {
+      const throttle = new AsyncThrottle({});
+      const attemptTimes: number[] = [];
+
+      let drained = false;
+      throttle.callThrottled(flakyWork(1, attemptTimes), {retry});
+      throttle.whenDrained().then(() => {
+        drained = true;
+      });
+
+      return advance(99).then(() => {
+        expect(drained).to.be.false;
+        return advance(1);
+      }).then(() => throttle.whenDrained()).then(() => {
+        expect(attemptTimes).to.be.eql([0, 100]);
+      });
+    });
+
+    it('queues retries ahead of later work', () => {
+      const throttle = new AsyncThrottle({maxQps: 1, retry: {...retry, initialDelayMs: 10}});
+      const order: string[] = [];
+
+      throttle.callThrottled(() => {
+        order.push('flaky');
+        return order.length > 1 ? Promise.resolve() : Promise.reject(Worker.promiseError);
+      });
+      throttle.callThrottled(() => {
+        order.push('later');
+        return Promise.resolve();
+      });
+
+      return advance(2000).then(() => {
+        expect(order).to.be.eql(['flaky', 'flaky', 'later']);
+        return throttle.whenDrained();
+      });
+    });
+  });
+
+  describe('bounded queue', () => {
+    it('rejects new work when full', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, maxQueued: 2});
+
+      const workers = [new Worker(Flags.MANUAL), new Worker(), new Worker(), new Worker()];
+      const complete = workers.map(w => throttle.callThrottled(() => w.work()).catch(error => error));
+      expect(throttle.queuedCount).to.be.eql(2);
+
+      workers[0].complete();
+      return Promise.all(complete).then(values => {
+        expect(workers.map(w => w.called)).to.be.eql([true, true, true, false]);
+        expect(values[3]).to.be.an.instanceof(QueueOverflowError);
+        expect(throttle.queuedCount).to.be.eql(0);
+        return throttle.whenDrained();
+      });
+    });
+
+    it('drops the oldest work when full', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, maxQueued: 2, overflow: 'dropOldest'});
+
+      const workers = [new Worker(Flags.MANUAL), new Worker(), new Worker(), new Worker()];
+      const complete = workers.map(w => throttle.callThrottled(() => w.work()).catch(error => error));
+      expect(throttle.queuedCount).to.be.eql(2);
+
+      workers[0].complete();
+      return Promise.all(complete).then(values => {
+        expect(workers.map(w => w.called)).to.be.eql([true, false, true, true]);
+        expect(values[1]).to.be.an.instanceof(QueueOverflowError);
+        return throttle.whenDrained();
+      });
+    });
+
+    it('keeps higher priority work when dropping', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, maxQueued: 1, overflow: 'dropOldest'});
+
+      const workers = [new Worker(Flags.MANUAL), new Worker(), new Worker()];
+      const complete = workers.map((w, i) => throttle.callThrottled(() => w.work(), {priority: i === 1 ? 1 : 0})
+        .catch(error => error));
+
+      workers[0].complete();
+      return Promise.all(complete).then(values => {
+        expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+        expect(values[2]).to.be.an.instanceof(QueueOverflowError);
+        return throttle.whenDrained();
+      });
+    });
+
+    it('waits for the queue to have room', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, maxQueued: 1, overflow: 'wait'});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w2 = new Worker(Flags.MANUAL);
+      const w3 = new Worker();
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2Complete = throttle.callThrottled(() => w2.work());
+
+      let accepted = false;
+      const w3Accepted = throttle.enqueueThrottled(() => w3.work()).then(result => {
+        accepted = true;
+        return result.whenComplete;
+      });
+      expect(throttle.queuedCount).to.be.eql(1);
+
+      let drained = false;
+      throttle.whenDrained().then(() => {
+        drained = true;
+      });
+
+      w1.complete();
+      return w1Complete.then(() => {
+        expect(accepted).to.be.true;
+        expect(w3.called).to.be.false;
+        w2.complete();
+        return Promise.all([w2Complete, w3Accepted]);
+      }).then(() => {
+        expect(w3.called).to.be.true;
+        return throttle.whenDrained();
+      }).then(() => {
+        expect(drained).to.be.true;
+      });
+    });
+
+    it('aborts work while it waits for the queue', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, maxQueued: 1, overflow: 'wait'});
+      const controller = new TestAbortController();
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work());
+      const w3 = new Worker();
+      const w3Complete = throttle.callThrottled(() => w3.work(), {signal: controller.signal}).catch(error => error);
+
+      controller.abort();
+      w1.complete();
+
+      return Promise.all([w1Complete, w2Complete, w3Complete, throttle.whenDrained()]).then(values => {
+        expect(values[2]).to.be.an.instanceof(AbortError);
+        expect(w3.called).to.be.false;
+      });
+    });
+  });
+
+  describe('timeouts', () => {
+    it('removes work that is queued for too long', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, queueTimeoutMs: 100});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work()).catch(error => error);
+      expect(throttle.queuedCount).to.be.eql(1);
+
+      clock.tick(99);
+      expect(throttle.queuedCount).to.be.eql(1);
+
+      clock.tick(1);
+      expect(throttle.queuedCount).to.be.eql(0);
+
+      w1.complete();
+      return Promise.all([w1Complete, w2Complete, throttle.whenDrained()]).then(values => {
+        expect(values[1]).to.be.an.instanceof(QueueTimeoutError);
+        expect(w2.called).to.be.false;
+      });
+    });
+
+    it('releases the slot of work that runs for too long', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+
+      let receivedSignal: AbortSignalLike | undefined;
+      const w1Complete = throttle.callThrottled(signal => {
+        receivedSignal = signal;
+        return new Promise<void>(() => {});
+      }, {executionTimeoutMs: 100}).catch(error => error);
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work());
+      expect(receivedSignal!.aborted).to.be.false;
+
+      clock.tick(100);
+      expect(receivedSignal!.aborted).to.be.true;
+
+      return Promise.all([w1Complete, w2Complete]).then(values => {
+        expect(values[0]).to.be.an.instanceof(ExecutionTimeoutError);
+        expect(w2.called).to.be.true;
+        return throttle.whenDrained();
+      });
+    });
+
+    it('does not time out work that completes in time', () => {
+      const throttle = new AsyncThrottle({queueTimeoutMs: 100, executionTimeoutMs: 100});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+
+      clock.tick(99);
+      w1.complete();
+
+      return w1Complete.then(() => {
+        clock.tick(1000);
+        return throttle.whenDrained();
+      });
+    });
+
+    it('follows the signal provided with the call', () => {
+      const throttle = new AsyncThrottle({executionTimeoutMs: 100});
+      const controller = new TestAbortController();
+
+      let receivedSignal: AbortSignalLike | undefined;
+      const w1Complete = throttle.callThrottled(signal => {
+        receivedSignal = signal;
+        return new Promise<void>((resolve, reject) => {
+          signal!.addEventListener('abort', () => reject(new Error('Stopped early.')));
+        });
+      }, {signal: controller.signal});
+
+      controller.abort();
+      expect(receivedSignal!.aborted).to.be.true;
+
+      return w1Complete
+        .then(() => Promise.reject('Expected the aborted promise to fail.'))
+        .catch(error => {
+          expect(error.message).to.be.eql('Stopped early.');
+          return throttle.whenDrained();
+        });
+    });
+  });
+
+  describe('weighted work', () => {
+    it('charges the cost of work against rate limits', () => {
+      const throttle = new AsyncThrottle({maxQps: 5});
+
+      const workers = [new Worker(), new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work(), {cost: 2}));
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+      expect(throttle.getStats().windows[0].starts).to.be.eql(4);
+
+      clock.tick(999);
+      expect(workers[2].called).to.be.false;
+
+      clock.tick(1);
+      expect(workers[2].called).to.be.true;
+      expect(throttle.getStats().windows[0].starts).to.be.eql(2);
+
+      return throttle.whenDrained();
+    });
+
+    it('does not let cheaper work starve expensive work', () => {
+      const throttle = new AsyncThrottle({maxQps: 4});
+
+      const workers = [new Worker(), new Worker(), new Worker(), new Worker(), new Worker()];
+      workers.slice(0, 3).forEach(w => throttle.callThrottled(() => w.work()));
+      throttle.callThrottled(() => workers[3].work(), {cost: 3});
+      throttle.callThrottled(() => workers[4].work());
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, false, false]);
+
+      clock.tick(1000);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true, true]);
+
+      return throttle.whenDrained();
+    });
+
+    it('starts work that costs more than a limit once nothing else counts against it', () => {
+      const throttle = new AsyncThrottle({maxQps: 2});
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work(), {cost: 5});
+      const w2 = new Worker();
+      throttle.callThrottled(() => w2.work());
+      expect(w1.called).to.be.true;
+      expect(w2.called).to.be.false;
+
+      clock.tick(1000);
+      expect(w2.called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+
+    it('starts work as soon as there is room when cheaper work becomes next', () => {
+      const throttle = new AsyncThrottle({rateLimits: [{maxStarts: 5, windowMs: 1000}]});
+
+      throttle.callThrottled(() => Promise.resolve());
+      for (let i = 0; i < 4; i++) {
+        clock.tick(150);
+        throttle.callThrottled(() => Promise.resolve());
+      }
+      const expensive = new Worker();
+      throttle.callThrottled(() => expensive.work(), {cost: 5});
+      clock.tick(100);
+      const urgent = new Worker();
+      throttle.callThrottled(() => urgent.work(), {priority: 1});
+      expect(urgent.called).to.be.false;
+
+      clock.tick(299);
+      expect(urgent.called).to.be.false;
+
+      clock.tick(1);
+      expect(urgent.called).to.be.true;
+      expect(expensive.called).to.be.false;
+
+      clock.tick(1000);
+      expect(expensive.called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+
+    it('charges the outstanding cost of work against maxOutstanding', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 3});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work(), {outstandingCost: 2});
+      const w2 = new Worker(Flags.MANUAL);
+      const w2Complete = throttle.callThrottled(() => w2.work(), {outstandingCost: 2});
+      expect(w1.called).to.be.true;
+      expect(w2.called).to.be.false;
+
+      w1.complete();
+      return w1Complete.then(() => {
+        expect(w2.called).to.be.true;
+        w2.complete();
+        return Promise.all([w2Complete, throttle.whenDrained()]);
+      });
+    });
+
+    it('charges the cost of work against a token bucket', () => {
+      const throttle = new AsyncThrottle({tokenBucket: {rate: 10, burst: 5}});
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work(), {cost: 4});
+      const w2 = new Worker();
+      throttle.callThrottled(() => w2.work(), {cost: 2});
+      expect(w1.called).to.be.true;
+      expect(w2.called).to.be.false;
+
+      clock.tick(99);
+      expect(w2.called).to.be.false;
+
+      clock.tick(1);
+      expect(w2.called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+  });
+
+  describe('shared rate limits', () => {
+    // Lets the throttles exchange reservations with the store.
+    function flush(rounds: number = 10): Promise<void> {
+      return rounds === 0 ? Promise.resolve() : new Promise<void>(resolve => process.nextTick(resolve))
+        .then(() => flush(rounds - 1));
+    }
+
+    it('shares limits between throttles', () => {
+      const store = new MemoryRateLimitStore();
+      const t1 = new AsyncThrottle({maxQps: 2, shared: {store, key: 'vendor'}});
+      const t2 = new AsyncThrottle({maxQps: 2, shared: {store, key: 'vendor'}});
+
+      const workers = [new Worker(), new Worker(), new Worker(), new Worker()];
+      workers.forEach((w, i) => (i % 2 ? t2 : t1).callThrottled(() => w.work()));
+      return flush().then(() => {
+        expect(workers.filter(w => w.called).length).to.be.eql(2);
+
+        clock.tick(1000);
+        return flush();
+      }).then(() => {
+        expect(workers.filter(w => w.called).length).to.be.eql(4);
+        return Promise.all([t1.whenDrained(), t2.whenDrained()]);
+      });
+    });
+
+    it('falls back to local limits when the store is unavailable', () => {
+      const store = {reserve: () => Promise.reject(new Error('Store failed intentionally.'))};
+      const fallback = [{maxStarts: 1, windowMs: 1000}];
+      const throttle = new AsyncThrottle({maxQps: 10, shared: {store, key: 'vendor', fallback}});
+
+      const workers = [new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work()));
+      return flush().then(() => {
+        expect(workers.map(w => w.called)).to.be.eql([true, false]);
+
+        clock.tick(1000);
+        return flush();
+      }).then(() => {
+        expect(workers.map(w => w.called)).to.be.eql([true, true]);
+        return throttle.whenDrained();
+      });
+    });
+
+    it('treats a store that does not respond as unavailable', () => {
+      const store = {reserve: () => new Promise<number>(() => {})};
+      const throttle = new AsyncThrottle({maxQps: 10, shared: {store, key: 'vendor', timeoutMs: 100}});
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work());
+      return flush().then(() => {
+        expect(w1.called).to.be.false;
+
+        clock.tick(100);
+        return flush();
+      }).then(() => {
+        expect(w1.called).to.be.true;
+        return throttle.whenDrained();
+      });
+    });
+  });
+
+  describe('upstream limits', () => {
+    it('holds work until a block ends', () => {
+      const throttle = new AsyncThrottle({});
+      throttle.blockUntil(Date.now() + 30000);
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work());
+      expect(w1.called).to.be.false;
+
+      clock.tick(29999);
+      expect(w1.called).to.be.false;
+
+      clock.tick(1);
+      expect(w1.called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+
+    it('holds work once the reported quota is used up, until it resets', () => {
+      const throttle = new AsyncThrottle({});
+      const throttled: string[] = [];
+      throttle.setOptions({hooks: {throttled: event => throttled.push(event.reason)}});
+      throttle.reportQuota({remaining: 2, resetAt: Date.now() + 5000});
+
+      const workers = [new Worker(), new Worker(), new Worker()];
+      workers.forEach(w => throttle.callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false]);
+      expect(throttled).to.be.eql(['upstream']);
+
+      clock.tick(5000);
+      expect(workers[2].called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+
+    it('holds work until the reset of the latest reported quota', () => {
+      const throttle = new AsyncThrottle({});
+      throttle.reportQuota({remaining: 0, resetAt: Date.now() + 60000});
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work());
+      clock.tick(1000);
+      throttle.reportQuota({remaining: 0, resetAt: Date.now() + 4000});
+
+      clock.tick(3999);
+      expect(w1.called).to.be.false;
+
+      clock.tick(1);
+      expect(w1.called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+
+    it('holds work until the reset of a quota read from the outcome of work', () => {
+      const throttle = new AsyncThrottle({
+        upstreamLimits: outcome => outcome.fulfilled ? undefined :
+          {quota: {remaining: 0, resetAt: outcome.error.resetAt}},
+      });
+      throttle.reportQuota({remaining: 1, resetAt: Date.now() + 60000});
+
+      let failW1: (error: any) => void = () => {};
+      const w1Complete = throttle.callThrottled(() => new Promise<void>((resolve, reject) => failW1 = reject));
+      const w2 = new Worker();
+      throttle.callThrottled(() => w2.work());
+      expect(w2.called).to.be.false;
+
+      clock.tick(1000);
+      failW1(Object.assign(new Error('Too many requests.'), {resetAt: Date.now() + 4000}));
+      return w1Complete.catch(() => {
+        clock.tick(3999);
+        expect(w2.called).to.be.false;
+
+        clock.tick(1);
+        expect(w2.called).to.be.true;
+        return throttle.whenDrained();
+      });
+    });
+
+    it('reads limits from the outcome of work', () => {
+      const throttle = new AsyncThrottle({
+        upstreamLimits: outcome => outcome.fulfilled ? undefined :
+          {blockUntil: Date.now() + outcome.error.retryAfterMs},
+      });
+
+      const rateLimited = Object.assign(new Error('Too many requests.'), {retryAfterMs: 1000});
+      const w2 = new Worker();
+      const w1Complete = throttle.callThrottled(() => Promise.reject(rateLimited)).catch(() => {});
+      return w1Complete.then(() => {
+        throttle.callThrottled(() => w2.work());
+        expect(w2.called).to.be.false;
+
+        clock.tick(1000);
+        expect(w2.called).to.be.true;
+        return throttle.whenDrained();
+      });
+    });
+  });
+
+  describe('parent throttles', () => {
+    it('applies the rate limits of every ancestor', () => {
+      const vendor = new AsyncThrottle({maxQps: 3});
+      const region = new AsyncThrottle({maxQps: 10, parent: vendor});
+      const t1 = new AsyncThrottle({maxQps: 2, parent: region});
+      const t2 = new AsyncThrottle({maxQps: 2, parent: region});
+
+      const workers = [new Worker(), new Worker(), new Worker(), new Worker(), new Worker()];
+      workers.forEach((w, i) => (i < 3 ? t1 : t2).callThrottled(() => w.work()));
+      expect(workers.map(w => w.called)).to.be.eql([true, true, false, true, false]);
+      expect(vendor.getStats().windows[0].starts).to.be.eql(3);
+
+      clock.tick(1000);
+      expect(workers.map(w => w.called)).to.be.eql([true, true, true, true, true]);
+
+      return Promise.all([t1.whenDrained(), t2.whenDrained(), vendor.whenDrained()]);
+    });
+
+    it('holds work in the parent until the parent has room', () => {
+      const parent = new AsyncThrottle({maxOutstanding: 1});
+      const child = new AsyncThrottle({maxOutstanding: 5, parent});
+      const throttled: string[] = [];
+      child.setOptions({hooks: {throttled: event => throttled.push(event.reason)}});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = child.callThrottled(() => w1.work());
+      const w2 = new Worker(Flags.MANUAL);
+      const w2Complete = child.callThrottled(() => w2.work());
+      expect(w1.called).to.be.true;
+      expect(w2.called).to.be.false;
+      expect(parent.getStats().running).to.be.eql(1);
+      expect(throttled).to.be.eql(['parent']);
+
+      w1.complete();
+      return w1Complete.then(() => {
+        expect(w2.called).to.be.true;
+        w2.complete();
+        return Promise.all([w2Complete, parent.whenDrained()]);
+      }).then(() => {
+        expect(parent.getStats().running).to.be.eql(0);
+      });
+    });
+
+    it('starts work from children behind the parent\'s own queued work', () => {
+      const parent = new AsyncThrottle({maxOutstanding: 1});
+      const child = new AsyncThrottle({parent});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = parent.callThrottled(() => w1.work());
+      const w2 = new Worker(Flags.MANUAL);
+      parent.callThrottled(() => w2.work());
+      const w3 = new Worker(Flags.MANUAL);
+      child.callThrottled(() => w3.work());
+
+      w1.complete();
+      return w1Complete.then(() => {
+        expect(w2.called).to.be.true;
+        expect(w3.called).to.be.false;
+        w2.complete();
+        return new Promise(resolve => process.nextTick(resolve));
+      }).then(() => {
+        expect(w3.called).to.be.true;
+        w3.complete();
+        return parent.whenDrained();
+      });
+    });
+
+    it('starts no work from children while the parent is paused', () => {
+      const parent = new AsyncThrottle({});
+      const child = new AsyncThrottle({parent});
+      parent.pause();
+
+      const w1 = new Worker();
+      child.callThrottled(() => w1.work());
+      expect(w1.called).to.be.false;
+
+      parent.resume();
+      expect(w1.called).to.be.true;
+
+      return child.whenDrained();
+    });
+  });
+
+  describe('pausing and closing', () => {
+    it('starts no work while paused', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work());
+      throttle.pause();
+      expect(throttle.isPaused()).to.be.true;
+      const w2 = new Worker();
+      throttle.callThrottled(() => w2.work());
+      expect(w1.called).to.be.true;
+      expect(w2.called).to.be.false;
+
+      clock.tick(2000);
+      expect(w2.called).to.be.false;
+      expect(throttle.queuedCount).to.be.eql(1);
+
+      throttle.resume();
+      expect(w2.called).to.be.true;
+
+      return throttle.whenDrained();
+    });
+
+    it('finishes queued work and refuses new work when closed', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work());
+
+      let closed = false;
+      const whenClosed = throttle.close().then(() => closed = true);
+      expect(throttle.isClosed()).to.be.true;
+      const w3 = new Worker();
+      const w3Complete = throttle.callThrottled(() => w3.work()).catch(error => error);
+
+      return w3Complete.then(error => {
+        expect(error).to.be.an.instanceof(ThrottleClosedError);
+        expect(w3.called).to.be.false;
+        expect(closed).to.be.false;
+
+        w1.complete();
+        return Promise.all([w1Complete, w2Complete, whenClosed]);
+      }).then(() => {
+        expect(w2.called).to.be.true;
+        expect(closed).to.be.true;
+      });
+    });
+
+    it('rejects queued work when closed with the reject mode', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, retry: {maxAttempts: 2}});
+
+      const w1 = new Worker(Flags.MANUAL | Flags.FAIL);
+      const w1Complete = throttle.callThrottled(() => w1.work()).catch(error => error);
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work()).catch(error => error);
+
+      const whenClosed = throttle.close({mode: 'reject'});
+      expect(throttle.queuedCount).to.be.eql(0);
+
+      w1.complete();
+      return Promise.all([w1Complete, w2Complete, whenClosed]).then(values => {
+        // Running work is allowed to complete, but is not retried.
+        expect(values[0]).to.be.eql(Worker.promiseError);
+        expect(values[1]).to.be.an.instanceof(ThrottleClosedError);
+        expect(w2.called).to.be.false;
+      });
+    });
+  });
+
+  describe('stats and hooks', () => {
+    it('reports a snapshot of queued and running work', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1, rateLimits: [{maxStarts: 5, windowMs: 1000}]});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2 = new Worker(Flags.FAIL);
+      const w2Complete = throttle.callThrottled(() => w2.work()).catch(() => {});
+
+      let stats = throttle.getStats();
+      expect(stats.queued).to.be.eql(1);
+      expect(stats.running).to.be.eql(1);
+      expect(stats.windows).to.be.eql([{windowMs: 1000, maxStarts: 5, starts: 1}]);
+      expect(stats.started).to.be.eql(1);
+
+      clock.tick(100);
+      w1.complete();
+      return Promise.all([w1Complete, w2Complete, throttle.whenDrained()]).then(() => {
+        stats = throttle.getStats();
+        expect(stats.queued).to.be.eql(0);
+        expect(stats.running).to.be.eql(0);
+        expect(stats.started).to.be.eql(2);
+        expect(stats.succeeded).to.be.eql(1);
+        expect(stats.failed).to.be.eql(1);
+        expect(stats.queueWaitMs).to.be.eql({count: 2, p50: 0, p90: 100, p99: 100, max: 100});
+        expect(stats.runTimeMs).to.be.eql({count: 2, p50: 0, p90: 100, p99: 100, max: 100});
+      });
+    });
+
+    it('reports lifecycle events to hooks', () => {
+      const events: string[] = [];
+      const throttle = new AsyncThrottle({
+        maxOutstanding: 1,
+        hooks: {
+          enqueue: event => events.push(`enqueue ${event.priority}`),
+          start: event => events.push(`start ${event.priority} after ${event.queueWaitMs}`),
+          settle: event => events.push(`settle ${event.priority} ${event.outcome!.fulfilled} in ${event.runTimeMs}`),
+          throttled: event => events.push(`throttled ${event.reason} ${event.queued}`),
+          drained: () => events.push('drained'),
+        },
+      });
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2Complete = throttle.callThrottled(() => new Worker().work(), {priority: 1});
+
+      clock.tick(50);
+      w1.complete();
+      return Promise.all([w1Complete, w2Complete, throttle.whenDrained()]).then(() => {
+        expect(events).to.be.eql([
+          'enqueue 0',
+          'start 0 after 0',
+          'enqueue 1',
+          'throttled outstanding 1',
+          'settle 0 true in 50',
+          'start 1 after 50',
+          'settle 1 true in 0',
+          'drained',
+        ]);
+      });
+    });
+
+    it('reports work that is rejected without being started', () => {
+      const events: string[] = [];
+      const throttle = new AsyncThrottle({
+        maxQps: 1,
+        maxQueued: 2,
+        overflow: 'dropOldest',
+        queueTimeoutMs: 500,
+        hooks: {
+          enqueue: event => events.push(`enqueue ${event.id}`),
+          start: event => events.push(`start ${event.id}`),
+          cancel: event => events.push(
+            `cancel ${event.id} ${event.outcome!.fulfilled} ${event.queued} after ${event.queueWaitMs}`),
+        },
+      });
+      const controller = new TestAbortController();
+
+      const w1Complete = throttle.callThrottled(() => new Worker().work());
+      const w2Complete = throttle.callThrottled(() => new Worker().work()).catch(error => error);
+      const w3Complete = throttle.callThrottled(() => new Worker().work(), {signal: controller.signal})
+        .catch(error => error);
+      clock.tick(100);
+      const w4Complete = throttle.callThrottled(() => new Worker().work()).catch(error => error);
+      const w5Complete = throttle.callThrottled(() => new Worker().work(), {priority: -1}).catch(error => error);
+      clock.tick(100);
+      controller.abort();
+      clock.tick(500);
+      return Promise.all([w1Complete, w2Complete, w3Complete, w4Complete, w5Complete]).then(values => {
+        expect(values[1]).to.be.an.instanceof(QueueOverflowError);
+        expect(values[2]).to.be.an.instanceof(AbortError);
+        expect(values[3]).to.be.an.instanceof(QueueTimeoutError);
+        expect(values[4]).to.be.an.instanceof(QueueOverflowError);
+        expect(events).to.be.eql([
+          'enqueue 0',
+          'start 0',
+          'enqueue 1',
+          'enqueue 2',
+          'cancel 1 false true after 100',
+          'enqueue 3',
+          'cancel 4 false false after 0',
+          'cancel 2 false true after 200',
+          'cancel 3 false true after 500',
+        ]);
+        expect(throttle.getStats().queueWaitMs).to.be.eql({count: 4, p50: 100, p90: 500, p99: 500, max: 500});
+      });
+    });
+
+    it('ignores errors thrown by hooks', () => {
+      const throttle = new AsyncThrottle({
+        hooks: {
+          start: () => {
+            throw new Error('Hook failed intentionally.');
+          },
+        },
+      });
+
+      const w1 = new Worker();
+      return throttle.callThrottled(() => w1.work()).then(() => {
+        expect(w1.called).to.be.true;
+        return throttle.whenDrained();
+      });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('removes aborted work before it starts', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      const controller = new TestAbortController();
+
+      const w1 = new Worker();
+      throttle.callThrottled(() => w1.work());
+      expect(w1.called).to.be.true;
+
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work(), {signal: controller.signal});
+      expect(controller.listenerCount).to.be.eql(1);
+
+      const w3 = new Worker();
+      throttle.callThrottled(() => w3.work());
+
+      controller.abort();
+      expect(controller.listenerCount).to.be.eql(0);
+
+      // The aborted work did not take the next QPS slot.
+      clock.tick(1000);
+      expect(w2.called).to.be.false;
+      expect(w3.called).to.be.true;
+
+      return w2Complete
+        .then(() => Promise.reject('Expected the aborted promise to fail.'))
+        .catch(error => {
+          expect(error).to.be.an.instanceof(AbortError);
+          return throttle.whenDrained();
+        });
+    });
+
+    it('rejects work that is already aborted', () => {
+      const throttle = new AsyncThrottle({});
+      const controller = new TestAbortController();
+      controller.abort();
+
+      const w1 = new Worker();
+      const w1Complete = throttle.callThrottled(() => w1.work(), {signal: controller.signal});
+      expect(w1.called).to.be.false;
+
+      return w1Complete
+        .then(() => Promise.reject('Expected the aborted promise to fail.'))
+        .catch(error => {
+          expect(error).to.be.an.instanceof(AbortError);
+          return throttle.whenDrained();
+        });
+    });
+
+    it('drains when the last queued work is aborted', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+      const controller = new TestAbortController();
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work(), {signal: controller.signal}).catch(error => error);
+
+      w1.complete();
+      controller.abort();
+
+      return Promise.all([w1Complete, w2Complete, throttle.whenDrained()]).then(values => {
+        expect(w2.called).to.be.false;
+        expect(values[1]).to.be.an.instanceof(AbortError);
+      });
+    });
+
+    it('passes the signal to running work', () => {
+      const throttle = new AsyncThrottle({});
+      const controller = new TestAbortController();
+
+      let receivedSignal: AbortSignalLike | undefined;
+      const w1Complete = throttle.callThrottled(signal => {
+        receivedSignal = signal;
+        return new Promise<void>((resolve, reject) => {
+          signal!.addEventListener('abort', () => reject(new Error('Stopped early.')));
+        });
+      }, {signal: controller.signal});
+      expect(receivedSignal).to.be.eql(controller.signal);
+
+      controller.abort();
+
+      return w1Complete
+        .then(() => Promise.reject('Expected the aborted promise to fail.'))
+        .catch(error => {
+          expect(error.message).to.be.eql('Stopped early.');
+          return throttle.whenDrained();
+        });
+    });
+  });
+
+  describe('fair queueing', () => {
+    it('alternates between flows', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      const started: string[] = [];
+      const call = (flow: string, name: string) =>
+        throttle.callThrottled(() => Promise.resolve(started.push(name)), {flow});
+
+      ['a1', 'a2', 'a3', 'a4'].forEach(name => call('a', name));
+      ['b1', 'b2'].forEach(name => call('b', name));
+      clock.tick(5000);
+      expect(started).to.be.eql(['a1', 'a2', 'b1', 'a3', 'b2', 'a4']);
+
+      return throttle.whenDrained();
+    });
+
+    it('serves flows in proportion to their weights', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      const started: string[] = [];
+      const call = (flow: string, weight: number) =>
+        throttle.callThrottled(() => Promise.resolve(started.push(flow)), {flow, weight});
+
+      call('x', 1);
+      for (let i = 0; i < 4; i++) {
+        call('a', 1);
+        call('b', 2);
+      }
+      clock.tick(8000);
+      expect(started).to.be.eql(['x', 'a', 'b', 'b', 'a', 'b', 'b', 'a', 'a']);
+
+      return throttle.whenDrained();
+    });
+
+    it('does not let a flow that was idle catch up on missed capacity', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      const started: string[] = [];
+      const call = (flow: string, name: string) =>
+        throttle.callThrottled(() => Promise.resolve(started.push(name)), {flow});
+
+      ['a1', 'a2', 'a3', 'a4', 'a5'].forEach(name => call('a', name));
+      clock.tick(2000);
+      ['b1', 'b2', 'b3'].forEach(name => call('b', name));
+      clock.tick(5000);
+      expect(started).to.be.eql(['a1', 'a2', 'a3', 'b1', 'a4', 'b2', 'a5', 'b3']);
+
+      return throttle.whenDrained();
+    });
+
+    it('does not count work that was rejected against its flow', () => {
+      const throttle = new AsyncThrottle({maxQps: 1, maxQueued: 2});
+      const started: string[] = [];
+      const call = (flow: string, name: string) =>
+        throttle.callThrottled(() => Promise.resolve(started.push(name)), {flow}).catch(() => {});
+
+      ['x', 'b1', 'b2'].forEach(name => call('b', name));
+      // The queue is full, so these are rejected.
+      ['a1', 'a2', 'a3'].forEach(name => call('a', name));
+      clock.tick(1000);
+      call('a', 'a4');
+      clock.tick(3000);
+      expect(started).to.be.eql(['x', 'b1', 'a4', 'b2']);
+
+      return throttle.whenDrained();
+    });
+  });
+
+  describe('deduplication', () => {
+    it('shares work with the same key while it is queued or running', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      let calls = 0;
+      const startWork = () => Promise.resolve(++calls);
+      const results = [1, 2, 3].map(() => throttle.callThrottled(startWork, {dedupeKey: 'a'}));
+      const other = throttle.callThrottled(startWork, {dedupeKey: 'b'});
+      expect(throttle.queuedCount).to.be.eql(2);
+
+      w1.complete();
+      return Promise.all([...results, other, w1Complete]).then(values => {
+        expect(values.slice(0, 4)).to.be.eql([1, 1, 1, 2]);
+        return throttle.callThrottled(startWork, {dedupeKey: 'a'});
+      }).then(value => {
+        expect(value).to.be.eql(3);
+      });
+    });
+
+    it('reuses a successful result for the TTL', () => {
+      const throttle = new AsyncThrottle({});
+      let calls = 0;
+      const startWork = () => Promise.resolve(++calls);
+      const options = {dedupeKey: 'a', dedupeTtlMs: 1000};
+
+      return throttle.callThrottled(startWork, options).then(value => {
+        expect(value).to.be.eql(1);
+        clock.tick(999);
+        return throttle.callThrottled(startWork, options);
+      }).then(value => {
+        expect(value).to.be.eql(1);
+        clock.tick(1);
+        return throttle.callThrottled(startWork, options);
+      }).then(value => {
+        expect(value).to.be.eql(2);
+      });
+    });
+
+    it('aborts shared work only once every caller has aborted', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+      const w1 = new Worker(Flags.MANUAL);
+      throttle.callThrottled(() => w1.work());
+
+      const c1 = new TestAbortController();
+      const c2 = new TestAbortController();
+      const w2 = new Worker();
+      const r1 = throttle.callThrottled(() => w2.work(), {dedupeKey: 'a', signal: c1.signal});
+      const r2 = throttle.callThrottled(() => w2.work(), {dedupeKey: 'a', signal: c2.signal});
+
+      c1.abort();
+      expect(throttle.queuedCount).to.be.eql(1);
+      c2.abort();
+      expect(throttle.queuedCount).to.be.eql(0);
+
+      return Promise.all([r1.catch(e => e), r2.catch(e => e)]).then(errors => {
+        expect(errors[0]).to.be.instanceof(AbortError);
+        expect(errors[1]).to.be.instanceof(AbortError);
+        w1.complete();
+        return throttle.whenDrained();
+      }).then(() => {
+        expect(w2.called).to.be.false;
+      });
+    });
+  });
+
+  describe('wrapping', () => {
+    it('calls the wrapped function through the throttle', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      const client = {
+        base: 'https://example.com',
+        get(path: string): Promise<string> {
+          return Promise.resolve(this.base + path);
+        },
+      };
+      client.get = throttle.wrap(client.get);
+
+      const first = client.get('/1');
+      const second = client.get('/2');
+      expect(throttle.queuedCount).to.be.eql(1);
+
+      clock.tick(1000);
+      return Promise.all([first, second]).then(values => {
+        expect(values).to.be.eql(['https://example.com/1', 'https://example.com/2']);
+        return throttle.whenDrained();
+      });
+    });
+  });
+
+  describe('priority', () => {
+    it('starts higher priority work first', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      const order: string[] = [];
+      const track = (name: string) => () => {
+        order.push(name);
+        return Promise.resolve();
+      };
+
+      throttle.callThrottled(track('running'), {priority: -1});
+      throttle.callThrottled(track('low1'), {priority: -1});
+      throttle.callThrottled(track('normal1'));
+      throttle.callThrottled(track('low2'), {priority: -1});
+      throttle.callThrottled(track('high'), {priority: 10});
+      throttle.callThrottled(track('normal2'), {priority: 0});
+      expect(order).to.be.eql(['running']);
+
+      clock.tick(5000);
+      expect(order).to.be.eql(['running', 'high', 'normal1', 'normal2', 'low1', 'low2']);
+
+      return throttle.whenDrained();
+    });
+
+    it('does not preempt running work', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const w2 = new Worker();
+      const w2Complete = throttle.callThrottled(() => w2.work(), {priority: 1});
+      expect(w2.called).to.be.false;
+
+      w1.complete();
+
+      return w1Complete.then(() => {
+        expect(w2.called).to.be.true;
+        return Promise.all([w2Complete, throttle.whenDrained()]);
+      });
+    });
+  });
+
+  describe('idleness', () => {
+    it('is idle only once started work leaves the QPS window', () => {
+      const throttle = new AsyncThrottle({maxQps: 1});
+      expect(throttle.isIdle()).to.be.true;
+
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      expect(throttle.isIdle()).to.be.false;
+
+      let idle = false;
+      const whenIdle = throttle.whenIdle().then(() => {
+        idle = true;
+      });
+
+      clock.tick(2000);
+      expect(throttle.isIdle()).to.be.false;
+      w1.complete();
+
+      return w1Complete.then(() => {
+        expect(throttle.isIdle()).to.be.true;
+        return whenIdle;
+      }).then(() => {
+        expect(idle).to.be.true;
+      });
+    });
+  });
+
+  describe('callAllThrottled', () => {
+    it('waits for all work', () => {
+      const work = [new Worker(), new Worker(), new Worker(Flags.MANUAL)];
+
+      const allComplete = AsyncThrottle.callAllThrottled(work.map(w => () => w.work()), {maxQps: 1});
+
+      expect(work[0].called).to.be.true;
+      expect(work[1].called).to.be.false;
+      expect(work[2].called).to.be.false;
+
+      clock.tick(4000);
+      expect(work[1].called).to.be.true;
+      expect(work[2].called).to.be.true;
+
+      const timeoutComplete = new Promise(resolve => {
+        setTimeout(resolve, 1000, 'X');
+      });
+
+      clock.tick(1000);
+      return Promise.race([allComplete, timeoutComplete]).then(value => {
+        expect(value).to.be.eql('X');
+        work[2].complete();
+        return allComplete;
+      });
+    });
+
+    it('rejects when any reject', () => {
+      const work = [new Worker(), new Worker(Flags.FAIL), new Worker(), new Worker()];
+
+      const allComplete = AsyncThrottle.callAllThrottled(work.map(w => () => w.work()), {});
+
+      expect(work[0].called).to.be.true;
+      expect(work[1].called).to.be.true;
+      expect(work[2].called).to.be.true;
+      expect(work[3].called).to.be.true;
+
+      return allComplete
+        .then(() => {
+          return Promise.reject('Expected the aggregate promise to fail.');
+        })
+        .catch(error => {
+          expect(error).to.be.eql(Worker.promiseError);
+          return Promise.resolve();
+        });
+    });
+
+    it('stops starting work once rejected', () => {
+      const work = [new Worker(Flags.FAIL), new Worker(), new Worker()];
+
+      const allComplete = AsyncThrottle.callAllThrottled(work.map(w => () => w.work()), {maxOutstanding: 1});
+
+      return allComplete
+        .then(() => Promise.reject('Expected the aggregate promise to fail.'))
+        .catch(error => {
+          expect(error).to.be.eql(Worker.promiseError);
+          expect(work[1].called).to.be.false;
+          expect(work[2].called).to.be.false;
+        });
+    });
+
+    it('aborts running work once rejected, if requested', () => {
+      const signals: AbortSignalLike[] = [];
+      const running = (signal?: AbortSignalLike) => {
+        signals.push(signal!);
+        return new Promise<void>(() => {});
+      };
+      const failing = new Worker(Flags.MANUAL | Flags.FAIL);
+
+      const allComplete = AsyncThrottle.callAllThrottled([running, () => failing.work()], {}, {abortRunning: true});
+      expect(signals[0].aborted).to.be.false;
+
+      failing.complete();
+      return allComplete
+        .then(() => Promise.reject('Expected the aggregate promise to fail.'))
+        .catch(error => {
+          expect(error).to.be.eql(Worker.promiseError);
+          expect(signals[0].aborted).to.be.true;
+        });
+    });
+
+    it('uses an existing throttle', () => {
+      const throttle = new AsyncThrottle({maxOutstanding: 1});
+      const w1 = new Worker(Flags.MANUAL);
+      const w1Complete = throttle.callThrottled(() => w1.work());
+      const work = [new Worker(), new Worker()];
+
+      const allComplete = AsyncThrottle.callAllThrottled(work.map(w => () => w.work()), throttle);
+      expect(throttle.queuedCount).to.be.eql(2);
+
+      w1.complete();
+      return Promise.all([w1Complete, allComplete]).then(() => {
+        expect(work[0].called).to.be.true;
+        expect(work[1].called).to.be.true;
+      });
+    });
+
+    it('resolves with every outcome for callAllSettledThrottled', () => {
+      const work = [() => Promise.resolve(1), () => Promise.reject(Worker.promiseError)];
+
+      return AsyncThrottle.callAllSettledThrottled<number>(work, {}).then(outcomes => {
+        expect(outcomes).to.be.eql([{fulfilled: true, value: 1}, {fulfilled: false, error: Worker.promiseError}]);
+      });
+    });
+
+    it('resolves with the first success for callAnyThrottled', () => {
+      const work = [new Worker(Flags.FAIL), new Worker(), new Worker()];
+      const results = ['a', 'b', 'c'];
+
+      const anyComplete = AsyncThrottle.callAnyThrottled(
+        work.map((w, i) => () => w.work().then(() => results[i])), {maxOutstanding: 1});
+
+      return anyComplete.then(value => {
+        expect(value).to.be.eql('b');
+        expect(work[2].called).to.be.false;
+      });
+    });
+
+    it('rejects when all fail for callAnyThrottled', () => {
+      const work = [new Worker(Flags.FAIL), new Worker(Flags.ERROR)];
+
+      return AsyncThrottle.callAnyThrottled(work.map(w => () => w.work()), {})
+        .then(() => Promise.reject('Expected the aggregate promise to fail.'))
+        .catch(error => {
+          expect(error).to.be.an.instanceof(AllFailedError);
+          expect(error.errors).to.be.eql([Worker.promiseError, Worker.functionError]);
+        });
+    });
+
+    it('settles with the first outcome for callRaceThrottled', () => {
+      const work = [new Worker(Flags.MANUAL), new Worker(Flags.MANUAL | Flags.FAIL), new Worker()];
+
+      const raceComplete = AsyncThrottle.callRaceThrottled(work.map(w => () => w.work()), {maxOutstanding: 2});
+
+      work[1].complete();
+      return raceComplete
+        .then(() => Promise.reject('Expected the race to fail.'))
+        .catch(error => {
+          expect(error).to.be.eql(Worker.promiseError);
+          expect(work[2].called).to.be.false;
         });
     });
   });
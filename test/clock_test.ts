@@ -0,0 +1,66 @@
+import {AsyncThrottle} from '../src/async_throttle';
+import {ManualClock} from '../src/clock';
+import {expect} from 'chai';
+
+describe('ManualClock', () => {
+  it('runs timers in order as time is advanced', () => {
+    const clock = new ManualClock(1000);
+    const ran: string[] = [];
+
+    clock.setTimer(() => ran.push(`b at ${clock.now()}`), 200);
+    clock.setTimer(() => {
+      ran.push(`a at ${clock.now()}`);
+      clock.setTimer(() => ran.push(`c at ${clock.now()}`), 150);
+    }, 100);
+    const cleared = clock.setTimer(() => ran.push('cleared'), 100);
+    clock.clearTimer(cleared);
+
+    clock.advance(200);
+    expect(ran).to.be.eql(['a at 1100', 'b at 1200']);
+    expect(clock.now()).to.be.eql(1200);
+    expect(clock.pendingTimers).to.be.eql(1);
+
+    clock.advance(100);
+    expect(ran).to.be.eql(['a at 1100', 'b at 1200', 'c at 1250']);
+    expect(clock.now()).to.be.eql(1300);
+  });
+
+  it('drives a throttle in virtual time', () => {
+    const clock = new ManualClock();
+    const throttle = new AsyncThrottle({maxQps: 2, clock});
+    const started: number[] = [];
+
+    const allComplete = Promise.all([1, 2, 3, 4, 5].map(i => throttle.callThrottled(() => {
+      started.push(clock.now());
+      return Promise.resolve();
+    })));
+    clock.advance(2000);
+
+    return allComplete.then(() => {
+      expect(started).to.be.eql([0, 0, 1000, 1000, 2000]);
+      return throttle.whenDrained();
+    });
+  });
+
+  it('processes completed work before advancing further', () => {
+    const clock = new ManualClock();
+    const runTimes: number[] = [];
+    const throttle = new AsyncThrottle({
+      maxOutstanding: 1,
+      clock,
+      hooks: {settle: event => runTimes.push(event.runTimeMs!)},
+    });
+    const started: number[] = [];
+
+    const allComplete = Promise.all([1, 2, 3].map(i => throttle.callThrottled(() => {
+      started.push(clock.now());
+      return new Promise<void>(resolve => clock.setTimer(resolve, 100));
+    })));
+    return clock.advanceAsync(1000).then(() => {
+      expect(started).to.be.eql([0, 100, 200]);
+      expect(runTimes).to.be.eql([100, 100, 100]);
+      expect(clock.now()).to.be.eql(1000);
+      return allComplete;
+    });
+  });
+});
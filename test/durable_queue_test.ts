@@ -0,0 +1,120 @@
+import {AsyncThrottle, ThrottleClosedError} from '../src/async_throttle';
+import {DurableQueue} from '../src/durable_queue';
+import {expect} from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('DurableQueue', () => {
+  const file = path.join(os.tmpdir(), `durable_queue_test_${process.pid}.journal`);
+
+  afterEach(() => {
+    [file, `${file}.tmp`].filter(f => fs.existsSync(f)).forEach(f => fs.unlinkSync(f));
+  });
+
+  // Reads the records in the journal.
+  function journal(): any[] {
+    return fs.readFileSync(file, 'utf8').split('\n').filter(line => line).map(line => JSON.parse(line));
+  }
+
+  it('runs jobs through the throttle, journaling each transition', () => {
+    const handlers = {double: (n: number) => Promise.resolve(n * 2)};
+
+    return DurableQueue.open(file, {maxOutstanding: 1}, {handlers}).then(queue => {
+      return Promise.all([queue.submit('double', 1), queue.submit('double', 2)]).then(values => {
+        expect(values).to.be.eql([2, 4]);
+        expect(journal().map(record => record.type)).to.be.eql(
+          ['enqueued', 'enqueued', 'started', 'settled', 'started', 'settled']);
+        expect(queue.unfinishedJobs).to.be.eql([]);
+      });
+    });
+  });
+
+  it('replays unfinished jobs when opened', () => {
+    const payloads: number[] = [];
+    const handlers = {record: (n: number) => Promise.resolve(payloads.push(n))};
+    fs.writeFileSync(file, [
+      {type: 'enqueued', job: {id: 1, handler: 'record', payload: 1, options: {}}},
+      {type: 'enqueued', job: {id: 2, handler: 'record', payload: 2, options: {}}},
+      {type: 'started', id: 1},
+      {type: 'started', id: 2},
+      {type: 'settled', id: 1, fulfilled: true},
+    ].map(record => JSON.stringify(record)).join('\n') + '\n{"type": "enq');
+
+    return DurableQueue.open(file, {}, {handlers}).then(queue => {
+      return queue.whenDrained().then(() => {
+        expect(payloads).to.be.eql([2]);
+        return queue.submit('record', 3);
+      });
+    }).then(() => {
+      // The journal was compacted when opened, and new jobs get new ids.
+      expect(journal().map(record => [record.type, record.id || record.job.id])).to.be.eql([
+        ['enqueued', 2], ['started', 2], ['settled', 2], ['enqueued', 3], ['started', 3], ['settled', 3],
+      ]);
+    });
+  });
+
+  it('reports the outcome of replayed jobs', () => {
+    const error = new Error('Job failed intentionally.');
+    const handlers = {fail: () => Promise.reject(error)};
+    fs.writeFileSync(file, JSON.stringify({type: 'enqueued', job: {id: 1, handler: 'fail', payload: 1, options: {}}}));
+
+    const outcomes: any[] = [];
+    const onSettled = (job: any, outcome: any) => outcomes.push([job.id, outcome]);
+    return DurableQueue.open(file, {}, {handlers, onSettled})
+      .then(queue => queue.whenDrained())
+      .then(() => {
+        expect(outcomes).to.be.eql([[1, {fulfilled: false, error}]]);
+      });
+  });
+
+  it('keeps jobs that the throttle rejected before they ran', () => {
+    const payloads: number[] = [];
+    const handlers = {record: (n: number) => Promise.resolve(payloads.push(n))};
+    const throttle = new AsyncThrottle({maxQps: 1});
+
+    return DurableQueue.open(file, throttle, {handlers}).then(queue => {
+      const results = [1, 2, 3].map(n => queue.submit('record', n).catch(error => error));
+      return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+        throttle.close({mode: 'reject'});
+        return Promise.all(results);
+      }).then(values => {
+        expect(values[0]).to.be.eql(1);
+        expect(values[1]).to.be.an.instanceof(ThrottleClosedError);
+        expect(values[2]).to.be.an.instanceof(ThrottleClosedError);
+        expect(queue.unfinishedJobs.map(job => job.payload)).to.be.eql([2, 3]);
+        return queue.whenDrained();
+      });
+    }).then(() => DurableQueue.open(file, {}, {handlers})).then(queue => queue.whenDrained()).then(() => {
+      expect(payloads).to.be.eql([1, 2, 3]);
+    });
+  });
+
+  it('compacts the journal to the unfinished jobs', () => {
+    const completions: Array<() => void> = [];
+    const handlers = {wait: () => new Promise<void>(resolve => completions.push(resolve))};
+
+    return DurableQueue.open(file, {maxOutstanding: 1}, {handlers}).then(queue => {
+      const results = [queue.submit('wait', 1), queue.submit('wait', 2)];
+      return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+        completions[0]();
+        return results[0];
+      }).then(() => queue.compact()).then(() => {
+        expect(journal().map(record => record.type)).to.be.eql(['enqueued']);
+        expect(journal()[0].job.payload).to.be.eql(2);
+        completions[1]();
+        return results[1];
+      });
+    });
+  });
+
+  it('refuses to open a journal with jobs for unknown handlers', () => {
+    fs.writeFileSync(file, JSON.stringify({type: 'enqueued', job: {id: 1, handler: 'gone', payload: 1, options: {}}}));
+
+    return DurableQueue.open(file, {}, {handlers: {}})
+      .then(() => Promise.reject('Expected the journal to be refused.'))
+      .catch(error => {
+        expect(error.message).to.contain('gone');
+      });
+  });
+});
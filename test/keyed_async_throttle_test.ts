@@ -0,0 +1,138 @@
+import {ManualClock} from '../src/clock';
+import {KeyedAsyncThrottle} from '../src/keyed_async_throttle';
+import {expect} from 'chai';
+import * as lolex from 'lolex';
+
+describe('KeyedAsyncThrottle', () => {
+  let clock;
+
+  beforeEach(() => {
+    clock = lolex.install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  // Returns a work function that records its key when called, and a way to complete it.
+  function manualWork(started: string[], key: string) {
+    let complete = () => {};
+    const startWork = () => {
+      started.push(key);
+      return new Promise<void>(resolve => {
+        complete = resolve;
+      });
+    };
+    return {startWork, complete: () => complete()};
+  }
+
+  it('throttles each key independently', () => {
+    const throttle = new KeyedAsyncThrottle({maxOutstanding: 1});
+    const started: string[] = [];
+
+    const a1 = manualWork(started, 'a1');
+    const a2 = manualWork(started, 'a2');
+    const b1 = manualWork(started, 'b1');
+    throttle.callThrottled('a', a1.startWork);
+    const a2Complete = throttle.callThrottled('a', a2.startWork);
+    const b1Complete = throttle.callThrottled('b', b1.startWork);
+    expect(started).to.be.eql(['a1', 'b1']);
+
+    a1.complete();
+    b1.complete();
+
+    return b1Complete.then(() => {
+      expect(started).to.be.eql(['a1', 'b1', 'a2']);
+      a2.complete();
+      return Promise.all([a2Complete, throttle.whenDrained()]);
+    });
+  });
+
+  it('resolves options per key', () => {
+    const throttle = new KeyedAsyncThrottle(key => ({maxQps: key === 'fast' ? 2 : 1}));
+    const started: string[] = [];
+    const track = (name: string) => () => {
+      started.push(name);
+      return Promise.resolve();
+    };
+
+    throttle.callThrottled('fast', track('fast1'));
+    throttle.callThrottled('fast', track('fast2'));
+    throttle.callThrottled('slow', track('slow1'));
+    throttle.callThrottled('slow', track('slow2'));
+    expect(started).to.be.eql(['fast1', 'fast2', 'slow1']);
+
+    clock.tick(1000);
+    expect(started).to.be.eql(['fast1', 'fast2', 'slow1', 'slow2']);
+
+    return throttle.whenDrained();
+  });
+
+  it('waits for a single key to drain', () => {
+    const throttle = new KeyedAsyncThrottle({});
+    const started: string[] = [];
+
+    const a = manualWork(started, 'a');
+    const b = manualWork(started, 'b');
+    throttle.callThrottled('a', a.startWork);
+    throttle.callThrottled('b', b.startWork);
+
+    let allDrained = false;
+    throttle.whenDrained().then(() => {
+      allDrained = true;
+    });
+
+    a.complete();
+    return throttle.whenDrained('a').then(() => {
+      expect(allDrained).to.be.false;
+      b.complete();
+      return throttle.whenDrained();
+    });
+  });
+
+  it('evicts keys once idle', () => {
+    const throttle = new KeyedAsyncThrottle({maxQps: 1});
+
+    return throttle.callThrottled('a', () => Promise.resolve())
+      .then(() => throttle.whenDrained())
+      .then(() => {
+        // The completed work still counts against QPS, so the key is kept.
+        expect(throttle.has('a')).to.be.true;
+        clock.tick(1000);
+        expect(throttle.has('a')).to.be.false;
+      });
+  });
+
+  it('holds no timer for keys that are waiting to be evicted', () => {
+    const manualClock = new ManualClock();
+    const throttle = new KeyedAsyncThrottle({rateLimits: [{maxStarts: 1000, windowMs: 3600000}], clock: manualClock});
+
+    return throttle.callThrottled('a', () => Promise.resolve())
+      .then(() => throttle.whenDrained())
+      .then(() => {
+        expect(manualClock.pendingTimers).to.be.eql(0);
+        manualClock.advance(3600000);
+        expect(throttle.has('a')).to.be.false;
+      });
+  });
+
+  it('wraps a function, keyed by its arguments', () => {
+    const throttle = new KeyedAsyncThrottle({maxQps: 1});
+    const started: string[] = [];
+    const get = throttle.wrap((host: string, path: string) => {
+      started.push(host + path);
+      return Promise.resolve(path);
+    }, host => host);
+
+    const results = Promise.all([get('a', '/1'), get('a', '/2'), get('b', '/1')]);
+    expect(started).to.be.eql(['a/1', 'b/1']);
+
+    clock.tick(1000);
+    expect(started).to.be.eql(['a/1', 'b/1', 'a/2']);
+
+    return results.then(values => {
+      expect(values).to.be.eql(['/1', '/2', '/1']);
+      return throttle.whenDrained();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {mapThrottled} from '../src/map_throttled';
+import {ThrottledTransform} from '../src/throttled_transform';
+import {expect} from 'chai';
+import {Readable} from 'stream';
+
+// Waits for pending promise callbacks and stream events to run.
+function flush(): Promise<void> {
+  return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+// Consumes an async iterator, returning all of its values.
+function collect<T>(iterator: AsyncIterator<T>, values: T[] = []): Promise<T[]> {
+  return iterator.next().then(result => result.done ? values : collect(iterator, [...values, result.value]));
+}
+
+// Returns work that doubles its item once completed by the caller, in any order.
+function manualWork(started: number[]) {
+  const completions = new Map<number, () => void>();
+  const mapWork = (item: number) => new Promise<number>(resolve => {
+    started.push(item);
+    completions.set(item, () => resolve(item * 2));
+  });
+  return {mapWork, complete: (item: number) => completions.get(item)!()};
+}
+
+describe('mapThrottled', () => {
+  it('produces results in input order', () => {
+    const started: number[] = [];
+    const {mapWork, complete} = manualWork(started);
+
+    const results = collect(mapThrottled([1, 2, 3], mapWork, {}));
+    return flush().then(() => {
+      expect(started).to.be.eql([1, 2, 3]);
+      [3, 1, 2].forEach(complete);
+      return results;
+    }).then(values => {
+      expect(values).to.be.eql([2, 4, 6]);
+    });
+  });
+
+  it('produces results in completion order', () => {
+    const started: number[] = [];
+    const {mapWork, complete} = manualWork(started);
+
+    const results = collect(mapThrottled([1, 2, 3], mapWork, {order: 'completion'}));
+    return flush().then(() => {
+      [3, 1, 2].forEach(complete);
+      return results;
+    }).then(values => {
+      expect(values).to.be.eql([6, 2, 4]);
+    });
+  });
+
+  it('reads from the source only as the throttle starts work', () => {
+    let readCount = 0;
+    const source = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => Promise.resolve(readCount < 10 ? {done: false, value: ++readCount} : {done: true}),
+      }),
+    } as AsyncIterable<number>;
+    const started: number[] = [];
+    const {mapWork, complete} = manualWork(started);
+
+    const iterator = mapThrottled(source, mapWork, {maxOutstanding: 2});
+    const first = iterator.next();
+    return flush().then(() => {
+      // Two items are running, and one is queued.
+      expect(started).to.be.eql([1, 2]);
+      expect(readCount).to.be.eql(3);
+
+      complete(1);
+      return first;
+    }).then(result => {
+      expect(result).to.be.eql({done: false, value: 2});
+      return flush();
+    }).then(() => {
+      expect(started).to.be.eql([1, 2, 3]);
+      expect(readCount).to.be.eql(4);
+      return iterator.return!();
+    });
+  });
+
+  it('limits the results that have not been consumed', () => {
+    let readCount = 0;
+    const source = {
+      [Symbol.iterator]: () => ({
+        next: () => ({done: false, value: ++readCount}),
+      }),
+    } as Iterable<number>;
+
+    const iterator = mapThrottled(source, item => Promise.resolve(item), {maxPending: 3});
+    iterator.next();
+    return flush().then(() => {
+      expect(readCount).to.be.eql(4);
+      return iterator.return!();
+    });
+  });
+
+  it('produces the first error, then ends', () => {
+    const error = new Error('Work failed intentionally.');
+    const iterator = mapThrottled([1, 2], item => item === 1 ? Promise.reject(error) : Promise.resolve(item), {});
+
+    return iterator.next()
+      .then(() => Promise.reject('Expected the first result to fail.'))
+      .catch(e => {
+        expect(e).to.be.eql(error);
+        return iterator.next();
+      })
+      .then(result => {
+        expect(result.done).to.be.true;
+      });
+  });
+});
+
+describe('ThrottledTransform', () => {
+  it('maps chunks through throttled work', () => {
+    const transform = new ThrottledTransform((item: number) => Promise.resolve(item * 2), {maxOutstanding: 2});
+    const values: number[] = [];
+
+    return new Promise<void>((resolve, reject) => {
+      const source = new Readable({objectMode: true, read: () => {}});
+      [1, 2, 3, 4].forEach(item => source.push(item));
+      source.push(null);
+      source.pipe(transform)
+        .on('data', (value: number) => values.push(value))
+        .on('end', resolve)
+        .on('error', reject);
+    }).then(() => {
+      expect(values).to.be.eql([2, 4, 6, 8]);
+    });
+  });
+
+  it('accepts no more chunks while the throttle is full', () => {
+    const started: number[] = [];
+    const {mapWork, complete} = manualWork(started);
+    const transform = new ThrottledTransform(mapWork, {maxOutstanding: 1});
+
+    let accepted = 0;
+    [1, 2, 3].forEach(item => transform.write(item, () => accepted++));
+    return flush().then(() => {
+      expect(started).to.be.eql([1]);
+      expect(accepted).to.be.eql(1);
+
+      complete(1);
+      return flush();
+    }).then(() => {
+      expect(started).to.be.eql([1, 2]);
+      expect(accepted).to.be.eql(2);
+      expect(transform.read()).to.be.eql(2);
+    });
+  });
+
+  it('is destroyed by an error from work', () => {
+    const error = new Error('Work failed intentionally.');
+    const transform = new ThrottledTransform(() => Promise.reject(error), {});
+
+    return new Promise<any>(resolve => {
+      transform.on('error', resolve);
+      transform.write(1);
+    }).then(e => {
+      expect(e).to.be.eql(error);
+    });
+  });
+});
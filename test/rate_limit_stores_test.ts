@@ -0,0 +1,123 @@
+import {AbortError} from '../src/async_throttle';
+import {FileRateLimitStore} from '../src/file_rate_limit_store';
+import {MemoryRateLimitStore} from '../src/rate_limit_stores';
+import {expect} from 'chai';
+import * as fs from 'fs';
+import * as lolex from 'lolex';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('MemoryRateLimitStore', () => {
+  let clock;
+
+  beforeEach(() => {
+    clock = lolex.install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  it('reserves starts while every limit has room', () => {
+    const store = new MemoryRateLimitStore();
+    const limits = [{maxStarts: 2, windowMs: 1000}, {maxStarts: 3, windowMs: 10000}];
+
+    return Promise.all([1, 2, 3].map(() => store.reserve('a', limits, 1))).then(delays => {
+      expect(delays).to.be.eql([0, 0, 1000]);
+
+      clock.tick(1000);
+      return store.reserve('a', limits, 1);
+    }).then(delay => {
+      expect(delay).to.be.eql(0);
+      return store.reserve('a', limits, 1);
+    }).then(delay => {
+      expect(delay).to.be.eql(9000);
+    });
+  });
+
+  it('accounts for the cost of starts and keeps keys separate', () => {
+    const store = new MemoryRateLimitStore();
+    const limits = [{maxStarts: 4, windowMs: 1000}];
+
+    return Promise.all([
+      store.reserve('a', limits, 3),
+      store.reserve('a', limits, 2),
+      store.reserve('b', limits, 2),
+    ]).then(delays => {
+      expect(delays).to.be.eql([0, 1000, 0]);
+    });
+  });
+});
+
+describe('FileRateLimitStore', () => {
+  const file = path.join(os.tmpdir(), `rate_limit_stores_test_${process.pid}.json`);
+
+  afterEach(() => {
+    [file, `${file}.lock`].filter(f => fs.existsSync(f)).forEach(f => fs.unlinkSync(f));
+  });
+
+  it('reserves starts atomically across stores sharing the file', () => {
+    const stores = [new FileRateLimitStore(file), new FileRateLimitStore(file)];
+    const limits = [{maxStarts: 3, windowMs: 60000}];
+
+    return Promise.all([0, 1, 2, 3, 4, 5].map(i => stores[i % 2].reserve('a', limits, 1))).then(delays => {
+      expect(delays.filter(delay => delay === 0).length).to.be.eql(3);
+      expect(fs.existsSync(`${file}.lock`)).to.be.false;
+    });
+  });
+
+  it('breaks an abandoned lock', () => {
+    fs.writeFileSync(`${file}.lock`, '');
+    const past = new Date(Date.now() - 10000);
+    fs.utimesSync(`${file}.lock`, past, past);
+
+    return new FileRateLimitStore(file).reserve('a', [{maxStarts: 1, windowMs: 1000}], 1).then(delay => {
+      expect(delay).to.be.eql(0);
+    });
+  });
+
+  it('keeps a lock that was acquired again after it was found abandoned', () => {
+    fs.writeFileSync(`${file}.lock`, '');
+    const past = new Date(Date.now() - 10000);
+    fs.utimesSync(`${file}.lock`, past, past);
+    // Another process breaks the abandoned lock and acquires a new one just before this store renames it aside.
+    const rename = fs.rename;
+    (fs as {rename: typeof fs.rename}).rename = ((oldPath: string, newPath: string, callback: (error: any) => void) => {
+      (fs as {rename: typeof fs.rename}).rename = rename;
+      fs.unlinkSync(`${file}.lock`);
+      fs.writeFileSync(`${file}.lock`, '');
+      rename(oldPath, newPath, callback);
+    }) as typeof fs.rename;
+
+    let reserved = false;
+    const whenReserved = new FileRateLimitStore(file).reserve('a', [{maxStarts: 1, windowMs: 1000}], 1).then(delay => {
+      reserved = true;
+      return delay;
+    });
+    return new Promise(resolve => setTimeout(resolve, 50)).then(() => {
+      expect(reserved).to.be.false;
+      expect(fs.existsSync(`${file}.lock`)).to.be.true;
+      fs.unlinkSync(`${file}.lock`);
+      return whenReserved;
+    }).then(delay => {
+      expect(delay).to.be.eql(0);
+    });
+  });
+
+  it('abandons a reservation once its signal aborts', () => {
+    fs.writeFileSync(`${file}.lock`, '');
+    const signal = {aborted: false, addEventListener: () => {}, removeEventListener: () => {}};
+    const store = new FileRateLimitStore(file);
+    const limits = [{maxStarts: 1, windowMs: 60000}];
+
+    const whenAbandoned = store.reserve('a', limits, 1, signal).catch(error => error);
+    signal.aborted = true;
+    fs.unlinkSync(`${file}.lock`);
+    return whenAbandoned.then(error => {
+      expect(error).to.be.an.instanceof(AbortError);
+      return store.reserve('a', limits, 1);
+    }).then(delay => {
+      expect(delay).to.be.eql(0);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import {AsyncThrottle, WorkOutcome} from '../src/async_throttle';
+import {ThrottledBatcher} from '../src/throttled_batcher';
+import {expect} from 'chai';
+import * as lolex from 'lolex';
+
+describe('ThrottledBatcher', () => {
+  let clock;
+
+  beforeEach(() => {
+    clock = lolex.install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  // Doubles each item, recording the batches it was called with.
+  function doubling(batches: Array<{key: string, items: number[]}>) {
+    return (items: number[], key: string) => {
+      batches.push({key, items});
+      return Promise.resolve(items.map(item => ({fulfilled: true, value: item * 2}) as WorkOutcome<number>));
+    };
+  }
+
+  it('starts a batch once it is full, or once it has waited long enough', () => {
+    const batches: Array<{key: string, items: number[]}> = [];
+    const batcher = new ThrottledBatcher(doubling(batches), {}, {maxBatchSize: 3, maxWaitMs: 100});
+
+    const results = [1, 2, 3, 4].map(item => batcher.callBatched('a', item));
+    const other = batcher.callBatched('b', 5);
+    expect(batches).to.be.eql([{key: 'a', items: [1, 2, 3]}]);
+
+    clock.tick(100);
+    expect(batches).to.be.eql([{key: 'a', items: [1, 2, 3]}, {key: 'a', items: [4]}, {key: 'b', items: [5]}]);
+
+    return Promise.all([...results, other]).then(values => {
+      expect(values).to.be.eql([2, 4, 6, 8, 10]);
+    });
+  });
+
+  it('runs each batch as one work item', () => {
+    const batches: Array<{key: string, items: number[]}> = [];
+    const throttle = new AsyncThrottle({maxQps: 1});
+    const batcher = new ThrottledBatcher(doubling(batches), throttle, {maxBatchSize: 2});
+
+    [1, 2, 3, 4].forEach(item => batcher.callBatched('a', item));
+    expect(batches.length).to.be.eql(1);
+    expect(throttle.queuedCount).to.be.eql(1);
+
+    clock.tick(1000);
+    expect(batches.length).to.be.eql(2);
+    return throttle.whenDrained();
+  });
+
+  it('settles each item with its own outcome', () => {
+    const error = new Error('Item failed intentionally.');
+    const batcher = new ThrottledBatcher((items: number[]) => Promise.resolve(items.map(item =>
+      (item === 2 ? {fulfilled: false, error} : {fulfilled: true, value: item}) as WorkOutcome<number>,
+    )), {}, {maxBatchSize: 2});
+
+    return Promise.all([1, 2].map(item => batcher.callBatched('a', item).catch(e => e))).then(values => {
+      expect(values).to.be.eql([1, error]);
+    });
+  });
+
+  it('fails every item when the batch fails', () => {
+    const error = new Error('Batch failed intentionally.');
+    const batcher = new ThrottledBatcher(() => Promise.reject(error), {}, {maxBatchSize: 10});
+
+    const results = [1, 2].map(item => batcher.callBatched('a', item).catch(e => e));
+    batcher.flush();
+    return Promise.all(results).then(values => {
+      expect(values).to.be.eql([error, error]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import {AsyncThrottle} from '../src/async_throttle';
+import {KeyedAsyncThrottle} from '../src/keyed_async_throttle';
+import {throttled} from '../src/throttled';
+import {expect} from 'chai';
+
+describe('throttled', () => {
+  // Returns a call that records its name when started, and waits to be completed.
+  function manualCall(started: string[]) {
+    const completions: Array<() => void> = [];
+    const call = (name: string) => new Promise<string>(resolve => {
+      started.push(name);
+      completions.push(() => resolve(name));
+    });
+    return {call, completeAll: () => completions.splice(0).forEach(complete => complete())};
+  }
+
+  it('throttles every call of a method, across instances', () => {
+    const started: string[] = [];
+    const {call, completeAll} = manualCall(started);
+
+    class Client {
+      constructor(private readonly name: string) {}
+
+      @throttled({maxOutstanding: 1})
+      get(path: string): Promise<string> {
+        return call(this.name + path);
+      }
+    }
+
+    const results = Promise.all([new Client('a').get('/1'), new Client('b').get('/1')]);
+    expect(started).to.be.eql(['a/1']);
+
+    completeAll();
+    return Promise.resolve().then(() => Promise.resolve()).then(() => {
+      expect(started).to.be.eql(['a/1', 'b/1']);
+      completeAll();
+      return results;
+    }).then(values => {
+      expect(values).to.be.eql(['a/1', 'b/1']);
+    });
+  });
+
+  it('throttles each key separately', () => {
+    const started: string[] = [];
+    const {call, completeAll} = manualCall(started);
+
+    class Client {
+      @throttled({maxOutstanding: 1}, {key: (host: string) => host})
+      get(host: string, path: string): Promise<string> {
+        return call(host + path);
+      }
+    }
+
+    const client = new Client();
+    const results = Promise.all([client.get('a', '/1'), client.get('a', '/2'), client.get('b', '/1')]);
+    expect(started).to.be.eql(['a/1', 'b/1']);
+
+    completeAll();
+    return Promise.resolve().then(() => Promise.resolve()).then(() => {
+      expect(started).to.be.eql(['a/1', 'b/1', 'a/2']);
+      completeAll();
+      return results;
+    });
+  });
+
+  it('requires a keyed throttle for a key', () => {
+    expect(() => throttled(new AsyncThrottle({}), {key: () => 'a'})).to.throw();
+    expect(() => throttled(new KeyedAsyncThrottle({}))).to.throw();
+  });
+});
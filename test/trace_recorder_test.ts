@@ -0,0 +1,103 @@
+import {AsyncThrottle} from '../src/async_throttle';
+import {TraceRecorder} from '../src/trace_recorder';
+import {expect} from 'chai';
+import * as lolex from 'lolex';
+
+describe('TraceRecorder', () => {
+  let clock;
+
+  beforeEach(() => {
+    clock = lolex.install();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  // Runs work that takes the given times through the throttle, advancing the clock until it is all complete.
+  function run(throttle: AsyncThrottle, runTimesMs: number[], fail: number[] = []): Promise<void> {
+    runTimesMs.forEach((runTimeMs, i) => throttle.callThrottled(() => new Promise<void>((resolve, reject) => {
+      setTimeout(() => fail.indexOf(i) >= 0 ? reject(new Error('Work failed intentionally.')) : resolve(), runTimeMs);
+    })).catch(() => {}));
+    const advance = (): Promise<void> => throttle.isIdle() ? Promise.resolve() :
+      new Promise<void>(resolve => process.nextTick(resolve)).then(() => {
+        clock.tick(100);
+        return advance();
+      });
+    return advance();
+  }
+
+  it('renders a timeline of work throttled on QPS', () => {
+    const trace = new TraceRecorder();
+    const throttle = new AsyncThrottle({maxQps: 1, trace});
+
+    return run(throttle, [3000, 3000, 3000]).then(() => {
+      expect(trace.renderTimeline()).to.be.eql([
+        '. = throttled',
+        '* = running',
+        '! = complete',
+        'x = failed (or cancelled while throttled)',
+        '',
+        '    0ms       1000ms    2000ms    3000ms    4000ms    5000ms    6000ms',
+        '    +---------+---------+---------+---------+---------+---------+',
+        'W1  ******************************!',
+        'W2  ..........******************************!',
+        'W3  ....................******************************!',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  it('ends work that was cancelled while throttled', () => {
+    const trace = new TraceRecorder();
+    const throttle = new AsyncThrottle({maxQps: 1, maxQueued: 1, overflow: 'dropOldest', queueTimeoutMs: 500, trace});
+
+    return run(throttle, [200, 200, 200]).then(() => {
+      expect(trace.renderTimeline()).to.be.eql([
+        '. = throttled',
+        '* = running',
+        '! = complete',
+        'x = failed (or cancelled while throttled)',
+        '',
+        '    0ms       1000ms',
+        '    +---------+',
+        'W1  **!',
+        'W2  x',
+        'W3  .....x',
+        '',
+      ].join('\n'));
+      const queued = trace.toChromeTrace().traceEvents.filter(event => event.name === 'queued');
+      expect(queued.map(event => [event.dur, event.args!.cancelled]))
+        .to.be.eql([[0, false], [0, true], [500000, true]]);
+    });
+  });
+
+  it('records the reason each work item waited', () => {
+    const trace = new TraceRecorder();
+    const throttle = new AsyncThrottle({maxOutstanding: 1, trace});
+
+    return run(throttle, [200, 200], [1]).then(() => {
+      const items = trace.getItems();
+      expect(items.map(item => [item.waitReason, item.startTime! - item.enqueueTime, item.fulfilled]))
+        .to.be.eql([[undefined, 0, true], ['outstanding', 200, false]]);
+    });
+  });
+
+  it('exports a Chrome trace', () => {
+    const trace = new TraceRecorder();
+    const throttle = new AsyncThrottle({maxQps: 1, trace});
+
+    return run(throttle, [500, 500]).then(() => {
+      const events = trace.toChromeTrace().traceEvents;
+      expect(events.map(event => [event.name, event.tid, event.ts, event.dur])).to.be.eql([
+        ['thread_name', 1, 0, undefined],
+        ['queued', 1, 0, 0],
+        ['running', 1, 0, 500000],
+        ['thread_name', 2, 0, undefined],
+        ['queued', 2, 0, 1000000],
+        ['running', 2, 1000000, 500000],
+      ]);
+      expect(events[4].args!.waitReason).to.be.eql('rate');
+    });
+  });
+});